@@ -8,10 +8,24 @@ import { Delegate } from './entities/Delegate';
 import { Attribute } from './entities/Attribute';
 import { Event } from './entities/Event';
 import { Credential } from './entities/Credential';
+import { CredentialStatusChange } from './entities/CredentialStatusChange';
+import { SyncCheckpoint } from './entities/SyncCheckpoint';
+import { RelayTransaction } from './entities/RelayTransaction';
+import { PresentationChallenge } from './entities/PresentationChallenge';
+import { StatusList } from './entities/StatusList';
+import { CredentialSchema } from './entities/CredentialSchema';
+import { AuthNonce } from './entities/AuthNonce';
+import { InboxMessage } from './entities/InboxMessage';
 import { DidModule } from './modules/did/did.module';
 import { EventModule } from './modules/event/event.module';
 import { BlockchainModule } from './modules/blockchain/blockchain.module';
 import { CredentialModule } from './modules/credential/credential.module';
+import { RelayerModule } from './modules/relayer/relayer.module';
+import { PresentationModule } from './modules/presentation/presentation.module';
+import { StatusListModule } from './modules/status-list/status-list.module';
+import { SchemaModule } from './modules/schema/schema.module';
+import { AuthModule } from './modules/auth/auth.module';
+import { DidCommModule } from './modules/didcomm/didcomm.module';
 
 @Module({
   imports: [
@@ -27,7 +41,21 @@ import { CredentialModule } from './modules/credential/credential.module';
         username: configService.get<string>('DB_USERNAME', 'root'),
         password: configService.get<string>('DB_PASSWORD', 'password'),
         database: configService.get<string>('DB_DATABASE', 'ethereum_did'),
-        entities: [Identity, Delegate, Attribute, Event, Credential],
+        entities: [
+          Identity,
+          Delegate,
+          Attribute,
+          Event,
+          Credential,
+          CredentialStatusChange,
+          SyncCheckpoint,
+          RelayTransaction,
+          PresentationChallenge,
+          StatusList,
+          CredentialSchema,
+          AuthNonce,
+          InboxMessage,
+        ],
         synchronize: configService.get<string>('NODE_ENV') !== 'production',
         // logging: configService.get<string>('NODE_ENV') === 'development',
       }),
@@ -37,6 +65,12 @@ import { CredentialModule } from './modules/credential/credential.module';
     EventModule,
     BlockchainModule,
     CredentialModule,
+    RelayerModule,
+    PresentationModule,
+    StatusListModule,
+    SchemaModule,
+    AuthModule,
+    DidCommModule,
   ],
   controllers: [AppController],
   providers: [AppService],
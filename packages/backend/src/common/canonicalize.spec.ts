@@ -0,0 +1,33 @@
+import { canonicalize } from './canonicalize';
+
+describe('canonicalize', () => {
+  it('should sort keys recursively regardless of insertion order', () => {
+    const a = { b: 1, a: { d: [3, { f: true, e: null }], c: 'x' } };
+    const b = { a: { c: 'x', d: [3, { e: null, f: true }] }, b: 1 };
+
+    expect(canonicalize(a)).toBe(
+      '{"a":{"c":"x","d":[3,{"e":null,"f":true}]},"b":1}',
+    );
+    expect(canonicalize(b)).toBe(canonicalize(a));
+  });
+
+  it('should omit undefined properties', () => {
+    expect(canonicalize({ a: 1, b: undefined })).toBe('{"a":1}');
+  });
+
+  it('should serialize numbers and strings like RFC 8785', () => {
+    expect(canonicalize([1e21, 0.1, -0, 1e-7, 'é\n"'])).toBe(
+      '[1e+21,0.1,0,1e-7,"é\\n\\""]',
+    );
+  });
+
+  it('should order keys by UTF-16 code units', () => {
+    expect(
+      canonicalize({ '\u20ac': 1, '\r': 2, '\ud83d\ude00': 3, a: 4 }),
+    ).toBe('{"\\r":2,"a":4,"\u20ac":1,"\ud83d\ude00":3}');
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => canonicalize({ a: NaN })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,47 @@
+import { encodeCbor } from './cbor';
+
+const hex = (value: unknown) => encodeCbor(value).toString('hex');
+
+describe('encodeCbor', () => {
+  // RFC 8949 Appendix A
+  it.each([
+    [0, '00'],
+    [23, '17'],
+    [24, '1818'],
+    [1000, '1903e8'],
+    [1000000, '1a000f4240'],
+    [1000000000000, '1b000000e8d4a51000'],
+    [-1, '20'],
+    [-1000, '3903e7'],
+    [1.1, 'fb3ff199999999999a'],
+    [false, 'f4'],
+    [true, 'f5'],
+    [null, 'f6'],
+    ['', '60'],
+    ['IETF', '6449455446'],
+    ['ü', '62c3bc'],
+    ['𐅑', '64f0908591'],
+    [[1, [2, 3], [4, 5]], '8301820203820405'],
+    [{ a: 1, b: [2, 3] }, 'a26161016162820203'],
+    [new Uint8Array([1, 2, 3, 4]), '4401020304'],
+  ])('should encode %j as %s', (value, expected) => {
+    expect(hex(value)).toBe(expected);
+  });
+
+  it('should sort map keys by their encoded bytes', () => {
+    // Shorter keys first, then bytewise
+    expect(hex({ bb: 2, c: 3, a: 1 })).toBe(hex({ a: 1, c: 3, bb: 2 }));
+    expect(hex({ bb: 2, c: 3, a: 1 })).toBe('a361610161630362626202');
+  });
+
+  it('should omit undefined properties and encode toJSON results', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z');
+
+    expect(hex({ a: 1, b: undefined })).toBe(hex({ a: 1 }));
+    expect(hex(date)).toBe(hex(date.toJSON()));
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => encodeCbor({ a: NaN })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Encode a JSON value as CBOR (RFC 8949) with core deterministic
+ * encoding: shortest-form integers and lengths, map keys sorted by their
+ * encoded bytes. Non-integers are written as float64. As with
+ * JSON.stringify, undefined properties are omitted and objects with
+ * toJSON are encoded from its result.
+ */
+export function encodeCbor(value: unknown): Buffer {
+  if (value === null) return Buffer.from([0xf6]);
+  if (value === false) return Buffer.from([0xf4]);
+  if (value === true) return Buffer.from([0xf5]);
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Cannot encode non-finite number: ${value}`);
+    }
+    if (Number.isSafeInteger(value)) {
+      return value >= 0 ? head(0, value) : head(1, -1 - value);
+    }
+    const float = Buffer.alloc(9);
+    float[0] = 0xfb;
+    float.writeDoubleBE(value, 1);
+    return float;
+  }
+
+  if (typeof value === 'string') {
+    const text = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, text.length), text]);
+  }
+
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+
+  if (typeof value !== 'object') {
+    throw new TypeError(`Cannot encode value of type ${typeof value}`);
+  }
+
+  const { toJSON } = value as { toJSON?: () => unknown };
+  if (typeof toJSON === 'function') {
+    return encodeCbor(toJSON.call(value));
+  }
+
+  if (Array.isArray(value)) {
+    return Buffer.concat([
+      head(4, value.length),
+      ...value.map((item: unknown) =>
+        encodeCbor(
+          item === undefined || typeof item === 'function' ? null : item,
+        ),
+      ),
+    ]);
+  }
+
+  const object = value as Record<string, unknown>;
+  const entries = Object.keys(object)
+    .filter(
+      (key) => object[key] !== undefined && typeof object[key] !== 'function',
+    )
+    .map((key) => [encodeCbor(key), encodeCbor(object[key])])
+    .sort(([a], [b]) => Buffer.compare(a, b));
+
+  return Buffer.concat([head(5, entries.length), ...entries.flat()]);
+}
+
+/**
+ * Initial byte(s) of a data item: major type and argument
+ */
+function head(majorType: number, argument: number): Buffer {
+  const type = majorType << 5;
+  if (argument < 24) return Buffer.from([type | argument]);
+  if (argument < 0x100) return Buffer.from([type | 24, argument]);
+
+  if (argument < 0x10000) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = type | 25;
+    buffer.writeUInt16BE(argument, 1);
+    return buffer;
+  }
+  if (argument < 0x100000000) {
+    const buffer = Buffer.alloc(5);
+    buffer[0] = type | 26;
+    buffer.writeUInt32BE(argument, 1);
+    return buffer;
+  }
+
+  const buffer = Buffer.alloc(9);
+  buffer[0] = type | 27;
+  buffer.writeBigUInt64BE(BigInt(argument), 1);
+  return buffer;
+}
@@ -5,10 +5,14 @@ import {
   ManyToOne,
   CreateDateColumn,
   UpdateDateColumn,
+  Index,
 } from 'typeorm';
 import { Identity } from './Identity';
 
+// The registry allows several values under the same attribute name
+// (e.g. multiple keys of the same type), so rows are keyed by value too
 @Entity()
+@Index(['identity', 'name', 'valueHash'], { unique: true })
 export class Attribute {
   @PrimaryGeneratedColumn()
   id: number;
@@ -22,9 +26,23 @@ export class Attribute {
   @Column('text')
   value: string;
 
+  @Column()
+  valueHash: string; // keccak256 of the raw attribute bytes
+
   @Column()
   validTo: number;
 
+  @Column({ default: false })
+  revoked: boolean; // Set by revokeAttribute (validTo <= block timestamp)
+
+  // Log that first added it; verification method ids are derived from it.
+  // Null for rows indexed before it was recorded, until they are backfilled.
+  @Column({ type: 'int', nullable: true })
+  blockNumber: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  logIndex: number | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
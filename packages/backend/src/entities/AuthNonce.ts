@@ -0,0 +1,17 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+// One-time nonce for a Sign-In with Ethereum message
+@Entity()
+export class AuthNonce {
+  @PrimaryColumn()
+  nonce: string;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  usedAt: Date | null; // Set once a sign-in with it has succeeded
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -9,10 +9,13 @@ import {
 export enum CredentialStatus {
   ACTIVE = 'active',
   REVOKED = 'revoked',
+  SUSPENDED = 'suspended', // Temporarily invalid, can be reinstated
   EXPIRED = 'expired',
 }
 
 @Entity()
+@Index(['statusListId', 'statusListIndex'], { unique: true })
+@Index(['suspensionListId', 'suspensionListIndex'], { unique: true })
 export class Credential {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -31,6 +34,9 @@ export class Credential {
   @Column('json')
   claims: Record<string, unknown>; // Credential claims/attributes
 
+  @Column({ type: 'json', nullable: true })
+  credentialSchema: { id: string; type: string } | null; // Signed schema reference
+
   @Column()
   issuanceDate: string; // ISO string (preserved exactly for signature verification)
 
@@ -44,6 +50,22 @@ export class Credential {
   })
   status: CredentialStatus;
 
+  @Column({ type: 'varchar', nullable: true })
+  statusListId: string | null; // Revocation StatusList holding this credential
+
+  @Column({ type: 'int', nullable: true })
+  statusListIndex: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  suspensionListId: string | null; // Suspension StatusList holding this credential
+
+  @Column({ type: 'int', nullable: true })
+  suspensionListIndex: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  @Index()
+  revocationHash: string | null; // Value of its on-chain did/revoked attribute
+
   @Column('text')
   proof: string; // Signature proof (JSON stringified)
 
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// A published JSON Schema for credential claims; versions are immutable
+@Entity()
+@Index(['author', 'name', 'version'], { unique: true })
+export class CredentialSchema {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  author: string; // Publisher DID (did:ethr:0x...)
+
+  @Column()
+  name: string;
+
+  @Column()
+  version: string; // Semantic version, e.g. "1.0.0"
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column('json')
+  schema: Record<string, unknown>; // Validates credentialSubject without its id
+
+  @Column('text')
+  signature: string; // Author's personal_sign over the published schema
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
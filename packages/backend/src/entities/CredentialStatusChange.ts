@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { CredentialStatus } from './Credential';
+
+// One revocation, suspension or reinstatement of a credential
+@Entity()
+export class CredentialStatusChange {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  credentialId: string; // Credential uuid
+
+  @Column({ type: 'enum', enum: CredentialStatus })
+  status: CredentialStatus; // Status after the change
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column()
+  signer: string; // Address that signed the change
+
+  @Column({ type: 'varchar', nullable: true, unique: true })
+  nonce: string | null; // From the signed request; null for on-chain revocations
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
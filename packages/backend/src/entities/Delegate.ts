@@ -5,10 +5,12 @@ import {
   ManyToOne,
   CreateDateColumn,
   UpdateDateColumn,
+  Index,
 } from 'typeorm';
 import { Identity } from './Identity';
 
 @Entity()
+@Index(['identity', 'delegateType', 'delegateAddress'], { unique: true })
 export class Delegate {
   @PrimaryGeneratedColumn()
   id: number;
@@ -25,6 +27,17 @@ export class Delegate {
   @Column()
   validTo: number;
 
+  @Column({ default: false })
+  revoked: boolean; // Set by revokeDelegate (validTo <= block timestamp)
+
+  // Log that first added it; verification method ids are derived from it.
+  // Null for rows indexed before it was recorded, until they are backfilled.
+  @Column({ type: 'int', nullable: true })
+  blockNumber: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  logIndex: number | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -4,22 +4,44 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  Index,
 } from 'typeorm';
 
+// A log is uniquely identified by its chain, transaction and position in it
 @Entity()
+@Index(['chainId', 'transactionHash', 'logIndex'], { unique: true })
+@Index(['chainId', 'identity', 'blockNumber'])
 export class Event {
   @PrimaryGeneratedColumn()
   id: number;
 
+  @Column()
+  chainId: number;
+
   @Column()
   transactionHash: string;
 
+  @Column()
+  logIndex: number;
+
   @Column()
   blockNumber: number;
 
+  @Column({ nullable: true })
+  blockHash: string; // Used to detect chain reorganizations
+
+  @Column({ nullable: true })
+  blockTimestamp: number; // Unix seconds, used to tell revocations from expiry
+
   @Column()
   eventName: string;
 
+  @Column({ nullable: true })
+  identity: string; // Lowercased identity address, indexed for history lookups
+
+  @Column({ default: 0 })
+  previousChange: number; // Block of the identity's previous change (0 = none)
+
   @Column('json')
   args: any;
 
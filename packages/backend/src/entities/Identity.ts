@@ -11,11 +11,14 @@ import { Attribute } from './Attribute';
 
 @Entity()
 export class Identity {
+  @PrimaryColumn()
+  chainId: number; // The same address is a distinct identity on each chain
+
   @PrimaryColumn()
   address: string;
 
-  @Column({ nullable: true })
-  controller: string;
+  @Column({ type: 'varchar', nullable: true })
+  controller: string | null;
 
   @OneToMany(() => Delegate, (delegate) => delegate.identity)
   delegates: Delegate[];
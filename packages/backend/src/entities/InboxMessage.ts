@@ -0,0 +1,24 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Encrypted DIDComm message held by the mediator until its recipient picks it up
+@Entity()
+export class InboxMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  recipient: string; // DID from the forward message's "next"
+
+  @Column('json')
+  message: Record<string, unknown>; // JWE, still encrypted to the recipient
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,20 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+// One-time nonce a verifier hands out for a Verifiable Presentation
+@Entity()
+export class PresentationChallenge {
+  @PrimaryColumn()
+  challenge: string;
+
+  @Column()
+  domain: string; // Verifier domain the presentation must be bound to
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  usedAt: Date | null; // Set once a presentation with it has been accepted
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Registry functions that have a *Signed meta-transaction variant
+export enum RelayAction {
+  CHANGE_OWNER = 'changeOwner',
+  ADD_DELEGATE = 'addDelegate',
+  REVOKE_DELEGATE = 'revokeDelegate',
+  SET_ATTRIBUTE = 'setAttribute',
+  REVOKE_ATTRIBUTE = 'revokeAttribute',
+}
+
+export enum RelayStatus {
+  PENDING = 'pending', // Signature accepted, not yet sent
+  SUBMITTED = 'submitted', // Sent, waiting for confirmations
+  CONFIRMED = 'confirmed',
+  FAILED = 'failed',
+}
+
+@Entity()
+@Index(['chainId', 'identity'])
+export class RelayTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  chainId: number;
+
+  @Column()
+  identity: string; // Lowercased identity address
+
+  @Column()
+  signer: string; // Identity owner who signed the request
+
+  @Column({ type: 'enum', enum: RelayAction })
+  action: RelayAction;
+
+  @Column('json')
+  params: Record<string, unknown>; // Action arguments as submitted
+
+  @Column()
+  nonce: number; // Owner nonce the signature was made over
+
+  @Column('text')
+  signature: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  transactionHash: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  blockNumber: number | null;
+
+  @Column({ type: 'enum', enum: RelayStatus, default: RelayStatus.PENDING })
+  status: RelayStatus;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// StatusList2021 statusPurpose
+export enum StatusPurpose {
+  REVOCATION = 'revocation',
+  SUSPENSION = 'suspension',
+}
+
+@Entity()
+@Index(['issuer', 'purpose'])
+export class StatusList {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  issuer: string; // DID of the credential issuer the list belongs to
+
+  @Column({ type: 'enum', enum: StatusPurpose })
+  purpose: StatusPurpose;
+
+  @Column()
+  size: number; // Number of entries (bits)
+
+  @Column('blob')
+  bitstring: Buffer; // Uncompressed; bit 0 is the first byte's high bit
+
+  @Column('blob')
+  allocated: Buffer; // Entries handed out, laid out like bitstring
+
+  @Column({ default: 0 })
+  allocatedCount: number; // Number of entries handed out
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,33 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity()
+@Index(['chainId', 'contractAddress'], { unique: true })
+export class SyncCheckpoint {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  chainId: number;
+
+  @Column()
+  contractAddress: string; // Lowercased registry address
+
+  @Column()
+  lastProcessedBlock: number;
+
+  @Column({ nullable: true })
+  lastProcessedBlockHash: string; // Compared with the next block's parentHash
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
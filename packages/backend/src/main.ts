@@ -1,10 +1,18 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { Logger } from '@nestjs/common';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import { DIDCOMM_ENCRYPTED_MEDIA_TYPE } from './modules/didcomm/didcomm-crypto';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // DIDComm messages are JSON under their own media type; this replaces
+  // Nest's default JSON parser, so keep application/json too
+  app.useBodyParser('json', {
+    type: ['application/json', DIDCOMM_ENCRYPTED_MEDIA_TYPE],
+  });
 
   // Enable CORS
   app.enableCors({
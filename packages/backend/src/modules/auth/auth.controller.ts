@@ -0,0 +1,46 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthService, AuthUser } from './auth.service';
+import { AuthGuard, CurrentUser } from './auth.guard';
+
+@Controller('api/auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Get a one-time nonce for a Sign-In with Ethereum message
+   * POST /api/auth/nonce
+   */
+  @Post('nonce')
+  async createNonce() {
+    return this.authService.createNonce();
+  }
+
+  /**
+   * Sign in with a signed EIP-4361 message and get a session token
+   * POST /api/auth/verify
+   */
+  @Post('verify')
+  async signIn(@Body() body: { message: string; signature: string }) {
+    if (!body.message || !body.signature) {
+      throw new BadRequestException('Message and signature are required.');
+    }
+    return this.authService.signIn(body.message, body.signature);
+  }
+
+  /**
+   * Get the signed-in user
+   * GET /api/auth/me
+   */
+  @Get('me')
+  @UseGuards(AuthGuard)
+  me(@CurrentUser() user: AuthUser) {
+    return user;
+  }
+}
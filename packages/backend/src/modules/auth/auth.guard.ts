@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  createParamDecorator,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { AuthService, AuthUser } from './auth.service';
+
+type AuthenticatedRequest = Request & { user?: AuthUser };
+
+/**
+ * Require a session token from POST /api/auth/verify as
+ * "Authorization: Bearer <token>"; the signed-in user is then available
+ * through @CurrentUser()
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Sign in required');
+    }
+
+    request.user = this.authService.verifySessionToken(token);
+    return true;
+  }
+}
+
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser | undefined =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().user,
+);
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { AuthNonce } from '../../entities/AuthNonce';
+import { DidModule } from '../did/did.module';
+import { NetworkModule } from '../network/network.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AuthNonce]), DidModule, NetworkModule],
+  controllers: [AuthController],
+  providers: [AuthService, AuthGuard],
+  exports: [AuthService, AuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,80 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { AuthService } from './auth.service';
+import { DidService } from '../did/did.service';
+import { NetworkService } from '../network/network.service';
+import { AuthNonce } from '../../entities/AuthNonce';
+
+const wallet = ethers.Wallet.createRandom();
+const DID = `did:ethr:${wallet.address.toLowerCase()}`;
+
+function createMessage(fields: { uri?: string; issuedAt?: Date } = {}) {
+  return [
+    'localhost:3000 wants you to sign in with your Ethereum account:',
+    wallet.address,
+    '',
+    `URI: ${fields.uri ?? 'http://localhost:3000'}`,
+    'Version: 1',
+    'Chain ID: 31337',
+    'Nonce: 32891756a1b2c3d4',
+    `Issued At: ${(fields.issuedAt ?? new Date()).toISOString()}`,
+    'Resources:',
+    `- ${DID}`,
+  ].join('\n');
+}
+
+describe('AuthService', () => {
+  let authService: AuthService;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        NetworkService,
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        {
+          provide: getRepositoryToken(AuthNonce),
+          useValue: { update: () => Promise.resolve({ affected: 1 }) },
+        },
+        {
+          provide: DidService,
+          useValue: {
+            toCanonicalDid: (did: string) => did.toLowerCase(),
+            wasValidSignerAtTime: () => Promise.resolve(true),
+          },
+        },
+      ],
+    }).compile();
+
+    authService = module.get(AuthService);
+  });
+
+  async function signIn(message: string) {
+    return authService.signIn(message, await wallet.signMessage(message));
+  }
+
+  it('should sign in with a current message for the domain', async () => {
+    await expect(signIn(createMessage())).resolves.toMatchObject({
+      did: DID,
+      address: wallet.address.toLowerCase(),
+    });
+  });
+
+  it('should refuse a URI on another host', async () => {
+    await expect(
+      signIn(createMessage({ uri: 'https://attacker.example' })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should refuse messages issued outside the nonce lifetime', async () => {
+    await expect(
+      signIn(createMessage({ issuedAt: new Date(Date.now() - 3600_000) })),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      signIn(createMessage({ issuedAt: new Date(Date.now() + 3600_000) })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AuthNonce } from '../../entities/AuthNonce';
+import { DidService } from '../did/did.service';
+import { NetworkService } from '../network/network.service';
+import { parseSiweMessage, SiweMessage } from './siwe-message';
+
+const SESSION_TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+// Seconds a sign-in message may be dated ahead of the server clock
+const MAX_CLOCK_SKEW = 60;
+
+// The signed-in DID and the account that signed in for it
+export interface AuthUser {
+  did: string;
+  address: string;
+}
+
+export interface AuthSession extends AuthUser {
+  token: string; // HS256 JWT, sent as "Authorization: Bearer <token>"
+  expiresAt: string;
+}
+
+interface SessionTokenPayload {
+  sub: string; // DID
+  address: string;
+  iat: number;
+  exp: number;
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly domains: string[];
+  private readonly nonceTtl: number;
+  private readonly sessionTtl: number;
+  private readonly secret: Buffer;
+
+  constructor(
+    @InjectRepository(AuthNonce)
+    private nonceRepository: Repository<AuthNonce>,
+    private configService: ConfigService,
+    private didService: DidService,
+    private networkService: NetworkService,
+  ) {
+    this.domains = this.configService
+      .get<string>('AUTH_DOMAINS', 'localhost:3000')
+      .split(',')
+      .map((domain) => domain.trim());
+    this.nonceTtl = Number(
+      this.configService.get<number>('AUTH_NONCE_TTL', 300),
+    );
+    this.sessionTtl = Number(
+      this.configService.get<number>('AUTH_SESSION_TTL', 3600),
+    );
+
+    const secret = this.configService.get<string>('AUTH_JWT_SECRET');
+    if (secret) {
+      this.secret = Buffer.from(secret);
+    } else {
+      this.secret = randomBytes(32);
+      this.logger.warn(
+        'AUTH_JWT_SECRET not set, sessions will not survive a restart',
+      );
+    }
+  }
+
+  /**
+   * Hand out a one-time nonce for a Sign-In with Ethereum message
+   */
+  async createNonce(): Promise<AuthNonce> {
+    return this.nonceRepository.save({
+      nonce: randomBytes(16).toString('hex'),
+      expiresAt: new Date(Date.now() + this.nonceTtl * 1000),
+      usedAt: null,
+    });
+  }
+
+  /**
+   * Sign in with an EIP-4361 message. The account that signed it must be
+   * the owner or a sigAuth delegate of the DID signing in: the first
+   * did:ethr resource, or the account's own DID on the message's chain.
+   * The nonce is consumed once the sign-in is accepted.
+   */
+  async signIn(message: string, signature: string): Promise<AuthSession> {
+    let siwe: SiweMessage;
+    try {
+      siwe = parseSiweMessage(message);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid sign-in message: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    if (!this.domains.includes(siwe.domain)) {
+      throw new UnauthorizedException(`Unexpected domain: ${siwe.domain}`);
+    }
+    if (!URL.canParse(siwe.uri) || new URL(siwe.uri).host !== siwe.domain) {
+      throw new UnauthorizedException(`Unexpected URI: ${siwe.uri}`);
+    }
+
+    const network = this.networkService.getNetwork(siwe.chainId);
+    if (!network) {
+      throw new BadRequestException(`Unsupported chain: ${siwe.chainId}`);
+    }
+
+    // A message is only as old as the nonce it was written for
+    const now = new Date();
+    const issuedAt = new Date(siwe.issuedAt).getTime();
+    if (
+      isNaN(issuedAt) ||
+      issuedAt > now.getTime() + MAX_CLOCK_SKEW * 1000 ||
+      issuedAt < now.getTime() - this.nonceTtl * 1000
+    ) {
+      throw new UnauthorizedException('Sign-in message is not current');
+    }
+    if (siwe.expirationTime && new Date(siwe.expirationTime) <= now) {
+      throw new UnauthorizedException('Sign-in message has expired');
+    }
+    if (siwe.notBefore && new Date(siwe.notBefore) > now) {
+      throw new UnauthorizedException('Sign-in message is not yet valid');
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(message, signature).toLowerCase();
+    } catch {
+      throw new BadRequestException('Invalid signature format');
+    }
+    if (signer !== siwe.address.toLowerCase()) {
+      throw new UnauthorizedException('Signature does not match the address');
+    }
+
+    const didResource = siwe.resources.find((resource) =>
+      resource.startsWith('did:ethr:'),
+    );
+    const did = this.didService.toCanonicalDid(
+      didResource ??
+        (network.chainId === this.networkService.getDefaultNetwork().chainId
+          ? signer
+          : `did:ethr:${network.name}:${signer}`),
+    );
+    if (
+      this.networkService.parseEthrDid(did)?.network.chainId !== network.chainId
+    ) {
+      throw new BadRequestException('DID is not on the message chain');
+    }
+
+    const validSigner = await this.didService.wasValidSignerAtTime(
+      did,
+      signer,
+      now,
+      'sigAuth',
+    );
+    if (!validSigner) {
+      throw new UnauthorizedException(
+        `${signer} is neither the owner nor a sigAuth delegate of ${did}`,
+      );
+    }
+
+    // Another request may have used the same nonce in the meantime
+    const { affected } = await this.nonceRepository.update(
+      { nonce: siwe.nonce, usedAt: IsNull(), expiresAt: MoreThan(now) },
+      { usedAt: now },
+    );
+    if (affected !== 1) {
+      throw new UnauthorizedException('Nonce is unknown, expired or used');
+    }
+
+    const iat = Math.floor(now.getTime() / 1000);
+    const exp = iat + this.sessionTtl;
+    return {
+      did,
+      address: signer,
+      token: this.signSessionToken({ sub: did, address: signer, iat, exp }),
+      expiresAt: new Date(exp * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Check a session token and return who it was issued to
+   */
+  verifySessionToken(token: string): AuthUser {
+    const [header, payload, signature] = token.split('.');
+    if (
+      !header ||
+      !payload ||
+      !signature ||
+      !this.hmacEquals(`${header}.${payload}`, signature)
+    ) {
+      throw new UnauthorizedException('Invalid session token');
+    }
+
+    const claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as SessionTokenPayload;
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new UnauthorizedException('Session has expired');
+    }
+
+    return { did: claims.sub, address: claims.address };
+  }
+
+  private signSessionToken(payload: SessionTokenPayload): string {
+    const signingInput = [SESSION_TOKEN_HEADER, payload]
+      .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+    return `${signingInput}.${this.hmac(signingInput).toString('base64url')}`;
+  }
+
+  private hmacEquals(signingInput: string, signature: string): boolean {
+    const expected = this.hmac(signingInput);
+    const actual = Buffer.from(signature, 'base64url');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private hmac(signingInput: string): Buffer {
+    return createHmac('sha256', this.secret).update(signingInput).digest();
+  }
+}
@@ -0,0 +1,54 @@
+import { parseSiweMessage } from './siwe-message';
+
+const MESSAGE = [
+  'localhost:3000 wants you to sign in with your Ethereum account:',
+  '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  '',
+  'Sign in to Ethereum DID',
+  '',
+  'URI: http://localhost:3000',
+  'Version: 1',
+  'Chain ID: 31337',
+  'Nonce: 32891756a1b2c3d4',
+  'Issued At: 2026-01-01T00:00:00.000Z',
+  'Expiration Time: 2026-01-01T00:10:00.000Z',
+  'Resources:',
+  '- did:ethr:0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+].join('\n');
+
+describe('parseSiweMessage', () => {
+  it('should parse the header, statement, fields and resources', () => {
+    expect(parseSiweMessage(MESSAGE)).toEqual({
+      domain: 'localhost:3000',
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      statement: 'Sign in to Ethereum DID',
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 31337,
+      nonce: '32891756a1b2c3d4',
+      issuedAt: '2026-01-01T00:00:00.000Z',
+      expirationTime: '2026-01-01T00:10:00.000Z',
+      notBefore: undefined,
+      requestId: undefined,
+      resources: ['did:ethr:0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266'],
+    });
+  });
+
+  it('should strip a scheme from the domain', () => {
+    expect(parseSiweMessage(`https://${MESSAGE}`).domain).toBe(
+      'localhost:3000',
+    );
+  });
+
+  it('should reject messages without a nonce', () => {
+    expect(() =>
+      parseSiweMessage(MESSAGE.replace('Nonce: 32891756a1b2c3d4\n', '')),
+    ).toThrow('required');
+  });
+
+  it('should reject other message formats', () => {
+    expect(() => parseSiweMessage('Sign in as 0x1234')).toThrow(
+      'Not a Sign-In with Ethereum message',
+    );
+  });
+});
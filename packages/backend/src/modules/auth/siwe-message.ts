@@ -0,0 +1,103 @@
+import { ethers } from 'ethers';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Fields of an EIP-4361 (Sign-In with Ethereum) message
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources: string[];
+}
+
+const FIELDS: Record<string, keyof SiweMessage> = {
+  URI: 'uri',
+  Version: 'version',
+  'Chain ID': 'chainId',
+  Nonce: 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+/**
+ * Parse an EIP-4361 message. Throws if it is malformed or lacks one of
+ * the required fields.
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.split('\n');
+
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Not a Sign-In with Ethereum message');
+  }
+  // The domain may be preceded by a URI scheme
+  const domain = lines[0]
+    .slice(0, -HEADER_SUFFIX.length)
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+
+  const address = lines[1];
+  if (!address || !ethers.isAddress(address)) {
+    throw new Error('Invalid address');
+  }
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  const statement: string[] = [];
+  const resources: string[] = [];
+  let inResources = false;
+
+  for (const line of lines.slice(2)) {
+    if (inResources) {
+      if (!line.startsWith('- ')) {
+        throw new Error('Malformed resources');
+      }
+      resources.push(line.slice(2));
+      continue;
+    }
+    if (line === 'Resources:') {
+      inResources = true;
+      continue;
+    }
+
+    const separator = line.indexOf(': ');
+    const field = separator > 0 ? FIELDS[line.slice(0, separator)] : undefined;
+    if (field) {
+      fields[field] = line.slice(separator + 2);
+    } else if (line && Object.keys(fields).length === 0) {
+      statement.push(line);
+    } else if (line) {
+      throw new Error(`Unexpected line: ${line}`);
+    }
+  }
+
+  const { uri, version, chainId, nonce, issuedAt } = fields;
+  if (!uri || !version || !chainId || !nonce || !issuedAt) {
+    throw new Error('URI, Version, Chain ID, Nonce and Issued At are required');
+  }
+  if (version !== '1') {
+    throw new Error(`Unsupported version: ${version}`);
+  }
+
+  return {
+    domain,
+    address,
+    statement: statement.length ? statement.join('\n') : undefined,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  };
+}
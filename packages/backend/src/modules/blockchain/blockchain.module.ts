@@ -5,10 +5,23 @@ import { Event } from '../../entities/Event';
 import { Identity } from '../../entities/Identity';
 import { Delegate } from '../../entities/Delegate';
 import { Attribute } from '../../entities/Attribute';
+import { SyncCheckpoint } from '../../entities/SyncCheckpoint';
 import { EventGateway } from '../event/event.gateway';
+import { NetworkModule } from '../network/network.module';
+import { CredentialModule } from '../credential/credential.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Event, Identity, Delegate, Attribute])],
+  imports: [
+    TypeOrmModule.forFeature([
+      Event,
+      Identity,
+      Delegate,
+      Attribute,
+      SyncCheckpoint,
+    ]),
+    NetworkModule,
+    CredentialModule,
+  ],
   providers: [BlockchainService, EventGateway],
   exports: [BlockchainService, EventGateway],
 })
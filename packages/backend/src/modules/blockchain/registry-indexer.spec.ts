@@ -0,0 +1,385 @@
+import { ethers } from 'ethers';
+import { FindOperator } from 'typeorm';
+import {
+  IndexerHooks,
+  IndexerRepositories,
+  RegistryIndexer,
+} from './registry-indexer';
+import { EventGateway } from '../event/event.gateway';
+import { Event } from '../../entities/Event';
+import { Identity } from '../../entities/Identity';
+import { Delegate } from '../../entities/Delegate';
+import { Attribute } from '../../entities/Attribute';
+import { SyncCheckpoint } from '../../entities/SyncCheckpoint';
+
+const REGISTRY = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+const registry = new ethers.Interface([
+  'event DIDOwnerChanged(address indexed identity, address owner, uint256 previousChange)',
+  'event DIDDelegateChanged(address indexed identity, bytes32 delegateType, address delegate, uint256 validTo, uint256 previousChange)',
+  'event DIDAttributeChanged(address indexed identity, bytes32 name, bytes value, uint256 validTo, uint256 previousChange)',
+]);
+
+const identity = ethers.Wallet.createRandom().address.toLowerCase();
+const owner = ethers.Wallet.createRandom().address.toLowerCase();
+const delegate = ethers.Wallet.createRandom().address.toLowerCase();
+const VERI_KEY = ethers.encodeBytes32String('veriKey');
+
+interface Block {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  logs: ethers.LogParams[];
+}
+
+type Where = Record<string, unknown>;
+
+function matches(entity: Where, where: Where): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = entity[key];
+    if (condition instanceof FindOperator) {
+      if (condition.type === 'isNull') return value === null;
+      if (condition.type === 'moreThan') {
+        return (value as number) > (condition.value as number);
+      }
+      throw new Error(`Unsupported operator ${condition.type}`);
+    }
+    if (condition !== null && typeof condition === 'object') {
+      return !!value && matches(value as Where, condition as Where);
+    }
+    return value === condition;
+  });
+}
+
+/**
+ * Just enough of a TypeORM repository for the indexer, keeping rows in
+ * memory. Identities are keyed by (chainId, address), the rest by id.
+ */
+function createRepository<T extends object>(key?: (row: T) => string) {
+  const rows: T[] = [];
+  let nextId = 1;
+  const filter = (where?: Where | Where[]) =>
+    rows.filter(
+      (row) =>
+        !where ||
+        [where].flat().some((condition) => matches(row as Where, condition)),
+    );
+
+  const repository = {
+    rows,
+    manager: {
+      transaction: (run: (manager: unknown) => Promise<unknown>) =>
+        run({ withRepository: (scoped: unknown) => scoped }),
+    },
+    findOne: ({ where }: { where: Where }) =>
+      Promise.resolve(filter(where)[0] ?? null),
+    find: ({
+      where,
+      order = {},
+    }: { where?: Where | Where[]; order?: Record<string, string> } = {}) =>
+      Promise.resolve(
+        filter(where).sort((a, b) => {
+          for (const [field, direction] of Object.entries(order)) {
+            const diff =
+              ((a as Where)[field] as number) - ((b as Where)[field] as number);
+            if (diff) return direction === 'DESC' ? -diff : diff;
+          }
+          return 0;
+        }),
+      ),
+    save: (entity: T) => {
+      const existing = rows.find(
+        (row) =>
+          row === entity ||
+          (key
+            ? key(row) === key(entity)
+            : (row as Where).id === (entity as Where).id),
+      );
+      if (existing) {
+        Object.assign(existing, entity);
+        return Promise.resolve(existing);
+      }
+      if (!key) (entity as Where).id = nextId++;
+      rows.push(entity);
+      return Promise.resolve(entity);
+    },
+    remove: (entities: T[]) => {
+      for (const entity of entities) rows.splice(rows.indexOf(entity), 1);
+      return Promise.resolve(entities);
+    },
+    delete: (where: Where) => {
+      for (const row of filter(where)) rows.splice(rows.indexOf(row), 1);
+      return Promise.resolve({});
+    },
+  };
+  return repository;
+}
+
+/**
+ * The two event queries the indexer builds: an identity's events in
+ * chain order, and the distinct event blocks in a range, newest first
+ */
+function createEventQueryBuilder(events: Event[]) {
+  const params: Record<string, number | string> = {};
+  const builder = {
+    select: () => builder,
+    addSelect: () => builder,
+    groupBy: () => builder,
+    addGroupBy: () => builder,
+    orderBy: () => builder,
+    addOrderBy: () => builder,
+    where: (_: string, values: Record<string, number | string>) => {
+      Object.assign(params, values);
+      return builder;
+    },
+    andWhere: (_: string, values: Record<string, number | string>) =>
+      builder.where(_, values),
+    getMany: () =>
+      Promise.resolve(
+        events
+          .filter(
+            (event) =>
+              event.identity === params.address &&
+              event.chainId === params.chainId,
+          )
+          .sort(
+            (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+          ),
+      ),
+    getRawMany: () => {
+      const blocks = new Map<number, string>();
+      for (const event of events) {
+        if (
+          event.chainId === params.chainId &&
+          event.blockNumber > (params.lowestBlock as number) &&
+          event.blockNumber <= (params.fromBlock as number)
+        ) {
+          blocks.set(event.blockNumber, event.blockHash);
+        }
+      }
+      return Promise.resolve(
+        [...blocks]
+          .sort(([a], [b]) => b - a)
+          .map(([blockNumber, blockHash]) => ({ blockNumber, blockHash })),
+      );
+    },
+  };
+  return builder;
+}
+
+describe('RegistryIndexer', () => {
+  let chain: Block[];
+  let repositories: ReturnType<typeof createStore>;
+  let eventGateway: {
+    broadcastEvent: jest.Mock;
+    broadcastRevertedEvent: jest.Mock;
+  };
+  let provider: Record<string, unknown>;
+
+  function createStore() {
+    const events = createRepository<Event>();
+    return {
+      events: Object.assign(events, {
+        createQueryBuilder: () => createEventQueryBuilder(events.rows),
+      }),
+      identities: createRepository<Identity>(
+        (row) => `${row.chainId}:${row.address}`,
+      ),
+      delegates: createRepository<Delegate>(),
+      attributes: createRepository<Attribute>(),
+      checkpoints: createRepository<SyncCheckpoint>(),
+    };
+  }
+
+  // Append a block on top of the current head
+  function mine(fork: string, ...events: [string, unknown[]][]) {
+    const number = chain.length;
+    const hash = ethers.id(`${fork}:${number}`);
+    chain.push({
+      number,
+      hash,
+      parentHash: chain[number - 1]?.hash ?? ethers.ZeroHash,
+      timestamp: 1_700_000_000 + number * 12,
+      logs: events.map(([name, args], index) => ({
+        ...registry.encodeEventLog(name, [identity, ...args]),
+        address: REGISTRY,
+        blockNumber: number,
+        blockHash: hash,
+        transactionHash: ethers.id(`${fork}:${number}:${index}`),
+        transactionIndex: index,
+        index,
+        removed: false,
+      })),
+    });
+  }
+
+  // Replace every block from the given one with blocks of another fork
+  function reorg(fromBlock: number, fork: string, blocks: number) {
+    chain.length = fromBlock;
+    for (let i = 0; i < blocks; i++) mine(fork);
+  }
+
+  function createIndexer(hooks?: IndexerHooks) {
+    return new RegistryIndexer(
+      { name: 'hardhat', chainId: 31337, rpcUrl: '', registry: REGISTRY },
+      provider as unknown as ethers.JsonRpcProvider,
+      repositories as unknown as IndexerRepositories,
+      eventGateway as unknown as EventGateway,
+      { startBlock: 0, batchSize: 100, confirmations: 0, maxReorgDepth: 64 },
+      hooks,
+    );
+  }
+
+  beforeEach(() => {
+    chain = [];
+    mine('genesis');
+    repositories = createStore();
+    eventGateway = {
+      broadcastEvent: jest.fn(),
+      broadcastRevertedEvent: jest.fn(),
+    };
+    provider = {
+      getNetwork: () => Promise.resolve({ chainId: 31337n }),
+      getBlockNumber: () => Promise.resolve(chain.length - 1),
+      getBlock: (number: number) => Promise.resolve(chain[number] ?? null),
+      getLogs: jest.fn(({ fromBlock, toBlock }: ethers.Filter) =>
+        Promise.resolve(
+          chain
+            .slice(Number(fromBlock), Number(toBlock) + 1)
+            .flatMap((block) => block.logs),
+        ),
+      ),
+      on: jest.fn(),
+    };
+    provider.provider = provider;
+  });
+
+  it('should store and apply each log once across resyncs', async () => {
+    mine('a', ['DIDOwnerChanged', [owner, 0]]);
+    const indexer = createIndexer();
+
+    await expect(indexer.syncFromBlock(0)).resolves.toBe(true);
+    await expect(indexer.syncFromBlock(0)).resolves.toBe(true);
+
+    // The same log delivered twice within one range
+    chain[1].logs.push(chain[1].logs[0]);
+    await expect(indexer.syncFromBlock(1)).resolves.toBe(true);
+
+    expect(repositories.events.rows).toHaveLength(1);
+    expect(repositories.identities.rows).toMatchObject([
+      { address: identity, controller: owner },
+    ]);
+    expect(eventGateway.broadcastEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll back to the common ancestor when a parent hash no longer matches', async () => {
+    mine('a', ['DIDOwnerChanged', [owner, 0]]);
+    mine('a', ['DIDDelegateChanged', [VERI_KEY, delegate, 2_000_000_000, 1]]);
+    const indexer = createIndexer();
+    await indexer.syncFromBlock(0);
+    expect(repositories.delegates.rows).toHaveLength(1);
+
+    // Block 2 and its delegate are replaced by an empty fork
+    reorg(2, 'b', 2);
+    await expect(indexer.syncFromBlock(3)).resolves.toBe(true);
+
+    expect(repositories.events.rows).toMatchObject([
+      { blockNumber: 1, eventName: 'DIDOwnerChanged' },
+    ]);
+    expect(repositories.delegates.rows).toHaveLength(0);
+    expect(repositories.identities.rows).toMatchObject([
+      { address: identity, controller: owner },
+    ]);
+    expect(eventGateway.broadcastRevertedEvent).toHaveBeenCalledTimes(1);
+    expect(eventGateway.broadcastRevertedEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'DelegateChanged', blockNumber: 2 }),
+    );
+    expect(repositories.checkpoints.rows).toMatchObject([
+      { lastProcessedBlock: 3, lastProcessedBlockHash: chain[3].hash },
+    ]);
+  });
+
+  it('should resume from the checkpoint after a restart', async () => {
+    mine('a', ['DIDOwnerChanged', [owner, 0]]);
+    await createIndexer().catchUpAndListen();
+
+    mine('a', ['DIDDelegateChanged', [VERI_KEY, delegate, 2_000_000_000, 1]]);
+    const getLogs = provider.getLogs as jest.Mock;
+    getLogs.mockClear();
+    await createIndexer().catchUpAndListen();
+
+    expect(getLogs).toHaveBeenCalledTimes(1);
+    expect(getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 2, toBlock: 2 }),
+    );
+    expect(repositories.events.rows).toHaveLength(2);
+    expect(repositories.delegates.rows).toMatchObject([
+      { delegateAddress: delegate, blockNumber: 2, logIndex: 0 },
+    ]);
+    expect(repositories.checkpoints.rows).toMatchObject([
+      { lastProcessedBlock: 2, lastProcessedBlockHash: chain[2].hash },
+    ]);
+    expect(provider.on).toHaveBeenCalledWith('block', expect.any(Function));
+  });
+
+  it('should mark revocations and keep attributes apart by value', async () => {
+    const name = ethers.encodeBytes32String('did/pub/Secp256k1/veriKey/hex');
+    const first = ethers.Wallet.createRandom().signingKey.compressedPublicKey;
+    const second = ethers.Wallet.createRandom().signingKey.compressedPublicKey;
+    mine(
+      'a',
+      ['DIDDelegateChanged', [VERI_KEY, delegate, 2_000_000_000, 0]],
+      ['DIDAttributeChanged', [name, first, 2_000_000_000, 0]],
+      ['DIDAttributeChanged', [name, second, 2_000_000_000, 0]],
+    );
+    // revokeDelegate ends validity at the block, revokeAttribute at 0
+    const revokedAt = 1_700_000_000 + 2 * 12;
+    mine(
+      'a',
+      ['DIDDelegateChanged', [VERI_KEY, delegate, revokedAt, 1]],
+      ['DIDAttributeChanged', [name, first, 0, 1]],
+    );
+
+    await createIndexer().syncFromBlock(0);
+
+    expect(repositories.delegates.rows).toMatchObject([
+      { delegateAddress: delegate, validTo: revokedAt, revoked: true },
+    ]);
+    expect(repositories.attributes.rows).toMatchObject([
+      { valueHash: ethers.keccak256(first), revoked: true },
+      { valueHash: ethers.keccak256(second), revoked: false },
+    ]);
+  });
+
+  it('should report attribute changes a reorg dropped to the hooks', async () => {
+    const name = ethers.encodeBytes32String('did/revoked');
+    const revocationHash = ethers.id('urn:uuid:1');
+    mine('a', [
+      'DIDAttributeChanged',
+      [name, revocationHash, 2_000_000_000, 0],
+    ]);
+    const hooks = {
+      // A failing consumer must not stop the sync
+      onAttributeChanged: jest.fn().mockRejectedValue(new Error('down')),
+      onAttributeReverted: jest.fn().mockResolvedValue(undefined),
+    };
+    const indexer = createIndexer(hooks);
+    await expect(indexer.syncFromBlock(0)).resolves.toBe(true);
+
+    reorg(1, 'b', 2);
+    await expect(indexer.syncFromBlock(2)).resolves.toBe(true);
+
+    const change = {
+      chainId: 31337,
+      identity: ethers.getAddress(identity),
+      name: 'did/revoked',
+      value: revocationHash,
+      validTo: 2_000_000_000,
+      blockNumber: 1,
+      transactionHash: ethers.id('a:1:0'),
+    };
+    expect(hooks.onAttributeChanged).toHaveBeenCalledWith(change);
+    expect(hooks.onAttributeReverted).toHaveBeenCalledWith(change);
+    expect(repositories.events.rows).toHaveLength(0);
+  });
+});
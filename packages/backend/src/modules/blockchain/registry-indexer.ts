@@ -0,0 +1,1013 @@
+import { Logger } from '@nestjs/common';
+import {
+  EntityManager,
+  Repository,
+  MoreThan,
+  IsNull,
+  QueryFailedError,
+} from 'typeorm';
+import { ethers, Log, EventLog } from 'ethers';
+import { Event } from '../../entities/Event';
+import { Identity } from '../../entities/Identity';
+import { Delegate } from '../../entities/Delegate';
+import { Attribute } from '../../entities/Attribute';
+import { SyncCheckpoint } from '../../entities/SyncCheckpoint';
+import { EventGateway, DIDEvent } from '../event/event.gateway';
+import { NetworkConfig } from '../network/network.service';
+
+// EthereumDIDRegistry ABI (events only)
+const DID_REGISTRY_ABI = [
+  'event DIDOwnerChanged(address indexed identity, address owner, uint256 previousChange)',
+  'event DIDDelegateChanged(address indexed identity, bytes32 delegateType, address delegate, uint256 validTo, uint256 previousChange)',
+  'event DIDAttributeChanged(address indexed identity, bytes32 name, bytes value, uint256 validTo, uint256 previousChange)',
+];
+
+// Stored event args interface (see handle* methods)
+interface StoredEventArgs {
+  identity: string;
+  owner?: string;
+  delegateType?: string;
+  delegate?: string;
+  name?: string;
+  value?: string;
+  validTo?: string;
+  previousChange: string;
+}
+
+export interface IndexerRepositories {
+  events: Repository<Event>;
+  identities: Repository<Identity>;
+  delegates: Repository<Delegate>;
+  attributes: Repository<Attribute>;
+  checkpoints: Repository<SyncCheckpoint>;
+}
+
+// A DIDAttributeChanged event that was indexed, or reverted by a reorg
+export interface AttributeChange {
+  chainId: number;
+  identity: string;
+  name: string;
+  value: string; // 0x-prefixed raw bytes
+  validTo: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// Callbacks for other modules that act on registry changes
+export interface IndexerHooks {
+  onAttributeChanged?: (change: AttributeChange) => Promise<void>;
+  onAttributeReverted?: (change: AttributeChange) => Promise<void>;
+}
+
+export interface IndexerOptions {
+  startBlock: number; // First block to sync without a checkpoint
+  batchSize: number; // Blocks per queryFilter call
+  confirmations: number; // Events are only indexed once this many blocks deep
+  maxReorgDepth: number; // How far back to look for a common ancestor
+}
+
+/**
+ * Indexes the EthereumDIDRegistry of a single network into the
+ * Event / Identity / Delegate / Attribute tables, scoped by chain id
+ */
+export class RegistryIndexer {
+  private readonly logger: Logger;
+  private readonly contract: ethers.Contract;
+  private readonly eventRepository: Repository<Event>;
+  private readonly identityRepository: Repository<Identity>;
+  private readonly delegateRepository: Repository<Delegate>;
+  private readonly attributeRepository: Repository<Attribute>;
+  private readonly checkpointRepository: Repository<SyncCheckpoint>;
+  private isListening = false;
+  private isSyncing = false;
+  // Timestamps of blocks in the range being synced (cleared per range)
+  private blockTimestamps = new Map<number, number>();
+
+  constructor(
+    readonly network: NetworkConfig,
+    private readonly provider: ethers.JsonRpcProvider,
+    repositories: IndexerRepositories,
+    private readonly eventGateway: EventGateway,
+    private readonly options: IndexerOptions,
+    private readonly hooks: IndexerHooks = {},
+  ) {
+    this.logger = new Logger(`${RegistryIndexer.name}:${network.name}`);
+    this.contract = new ethers.Contract(
+      network.registry,
+      DID_REGISTRY_ABI,
+      provider,
+    );
+    this.eventRepository = repositories.events;
+    this.identityRepository = repositories.identities;
+    this.delegateRepository = repositories.delegates;
+    this.attributeRepository = repositories.attributes;
+    this.checkpointRepository = repositories.checkpoints;
+  }
+
+  /**
+   * Resume indexing from the persisted checkpoint: backfill every block
+   * missed while the backend was down, then switch to live events
+   */
+  async catchUpAndListen() {
+    try {
+      const { chainId } = await this.provider.getNetwork();
+      if (Number(chainId) !== this.network.chainId) {
+        this.logger.error(
+          `RPC reports chain ${chainId}, expected ${this.network.chainId}; indexer not started`,
+        );
+        return;
+      }
+
+      this.logger.log(`Contract address: ${this.network.registry}`);
+      this.logger.log(`Confirmation depth: ${this.options.confirmations}`);
+
+      await this.backfillLogPositions();
+
+      const checkpoint = await this.getCheckpoint();
+      const fromBlock = this.getResumeBlock(checkpoint);
+
+      if (checkpoint) {
+        this.logger.log(
+          `Resuming from checkpoint at block ${checkpoint.lastProcessedBlock}`,
+        );
+      }
+
+      const synced = await this.syncFromBlock(fromBlock);
+      if (!synced) {
+        this.logger.error('Catch-up sync failed, live listener not started');
+        return;
+      }
+    } catch (error) {
+      this.logger.error('Failed to catch up with the chain:', error);
+      return;
+    }
+
+    await this.startListening();
+  }
+
+  /**
+   * Follow the chain head. Each new block triggers a sync of the blocks that
+   * reached the confirmation depth, so live events go through the same
+   * reorg checks as the backfill.
+   */
+  async startListening() {
+    if (this.isListening) return;
+
+    try {
+      // Test connection
+      const blockNumber = await this.provider.getBlockNumber();
+      this.logger.log(`Connected to blockchain at block ${blockNumber}`);
+
+      void this.provider.on('block', (latestBlock: number) => {
+        void this.syncConfirmedBlocks(latestBlock);
+      });
+
+      this.isListening = true;
+      this.logger.log('Started listening to DID Registry events');
+    } catch (error) {
+      this.logger.error('Failed to start event listener:', error);
+    }
+  }
+
+  private async syncConfirmedBlocks(latestBlock: number) {
+    // A sync still in progress will pick up this block on its next pass
+    if (this.isSyncing) return;
+
+    const fromBlock = this.getResumeBlock(await this.getCheckpoint());
+    if (fromBlock > latestBlock - this.options.confirmations) return;
+
+    await this.syncFromBlock(fromBlock);
+  }
+
+  private async handleOwnerChanged(
+    identity: string,
+    owner: string,
+    previousChange: bigint,
+    log: EventLog | Log,
+  ) {
+    this.logger.log(`DIDOwnerChanged: ${identity} -> ${owner}`);
+
+    // Save and apply the event, skipping logs that were already ingested
+    const blockTimestamp = await this.getBlockTimestamp(log.blockNumber);
+    const isNew = await this.ingestEvent(
+      log,
+      blockTimestamp,
+      'DIDOwnerChanged',
+      {
+        identity,
+        owner,
+        previousChange: previousChange.toString(),
+      },
+      (repositories) => this.applyOwnerChanged(repositories, identity, owner),
+    );
+    if (!isNew) return;
+
+    // Broadcast to WebSocket clients
+    this.eventGateway.broadcastEvent({
+      type: 'OwnerChanged',
+      chainId: this.network.chainId,
+      identity,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      timestamp: Date.now(),
+      data: {
+        owner,
+        previousChange: Number(previousChange),
+      },
+    });
+  }
+
+  private async handleDelegateChanged(
+    identity: string,
+    delegateType: string,
+    delegate: string,
+    validTo: bigint,
+    previousChange: bigint,
+    log: EventLog | Log,
+  ) {
+    let delegateTypeStr: string;
+    try {
+      delegateTypeStr = ethers.decodeBytes32String(delegateType);
+    } catch {
+      delegateTypeStr = delegateType;
+    }
+    this.logger.log(
+      `DIDDelegateChanged: ${identity} - ${delegateTypeStr} - ${delegate}`,
+    );
+
+    // Save and apply the event, skipping logs that were already ingested
+    const blockTimestamp = await this.getBlockTimestamp(log.blockNumber);
+    const isNew = await this.ingestEvent(
+      log,
+      blockTimestamp,
+      'DIDDelegateChanged',
+      {
+        identity,
+        delegateType: delegateTypeStr,
+        delegate,
+        validTo: validTo.toString(),
+        previousChange: previousChange.toString(),
+      },
+      (repositories) =>
+        this.applyDelegateChanged(
+          repositories,
+          identity,
+          delegateTypeStr,
+          delegate,
+          Number(validTo),
+          blockTimestamp,
+          log,
+        ),
+    );
+    if (!isNew) return;
+
+    // Broadcast to WebSocket clients
+    this.eventGateway.broadcastEvent({
+      type: 'DelegateChanged',
+      chainId: this.network.chainId,
+      identity,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      timestamp: Date.now(),
+      data: {
+        delegateType: delegateTypeStr,
+        delegate,
+        validTo: Number(validTo),
+        previousChange: Number(previousChange),
+      },
+    });
+  }
+
+  private async handleAttributeChanged(
+    identity: string,
+    name: string,
+    value: string,
+    validTo: bigint,
+    previousChange: bigint,
+    log: EventLog | Log,
+  ) {
+    let nameStr: string;
+    try {
+      nameStr = ethers.decodeBytes32String(name);
+    } catch {
+      nameStr = name;
+    }
+
+    this.logger.log(`DIDAttributeChanged: ${identity} - ${nameStr}`);
+
+    // Save and apply the event, skipping logs that were already ingested
+    const blockTimestamp = await this.getBlockTimestamp(log.blockNumber);
+    const isNew = await this.ingestEvent(
+      log,
+      blockTimestamp,
+      'DIDAttributeChanged',
+      {
+        identity,
+        name: nameStr,
+        value: ethers.hexlify(value),
+        validTo: validTo.toString(),
+        previousChange: previousChange.toString(),
+      },
+      (repositories) =>
+        this.applyAttributeChanged(
+          repositories,
+          identity,
+          nameStr,
+          ethers.hexlify(value),
+          Number(validTo),
+          blockTimestamp,
+          log,
+        ),
+    );
+    if (!isNew) return;
+
+    const valueStr = this.decodeAttributeValue(value);
+
+    // Broadcast to WebSocket clients
+    this.eventGateway.broadcastEvent({
+      type: 'AttributeChanged',
+      chainId: this.network.chainId,
+      identity,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      timestamp: Date.now(),
+      data: {
+        name: nameStr,
+        value: valueStr,
+        validTo: Number(validTo),
+        previousChange: Number(previousChange),
+      },
+    });
+
+    await this.runHook('onAttributeChanged', {
+      chainId: this.network.chainId,
+      identity,
+      name: nameStr,
+      value: ethers.hexlify(value),
+      validTo: Number(validTo),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    });
+  }
+
+  private async runHook(hook: keyof IndexerHooks, change: AttributeChange) {
+    try {
+      await this.hooks[hook]?.(change);
+    } catch (error) {
+      // A failing consumer must not stall indexing
+      this.logger.error(
+        `${hook} hook failed for ${change.name} of ${change.identity} ` +
+          `in ${change.transactionHash} (block ${change.blockNumber}):`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Store a log keyed by (chainId, transactionHash, logIndex) and apply it
+   * to the derived state in the same transaction, so a stored event always
+   * has its effect. Returns false if the log was already stored, so replays
+   * by backfill, restarts or manual resyncs never apply the same change
+   * twice.
+   */
+  private async ingestEvent(
+    log: EventLog | Log,
+    blockTimestamp: number,
+    eventName: string,
+    args: StoredEventArgs,
+    apply: (repositories: IndexerRepositories) => Promise<void>,
+  ): Promise<boolean> {
+    try {
+      return await this.eventRepository.manager.transaction(async (manager) => {
+        const repositories = this.withManager(manager);
+
+        const existing = await repositories.events.findOne({
+          where: {
+            chainId: this.network.chainId,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+          },
+        });
+        if (existing) {
+          this.logger.debug(
+            `Skipping already ingested log ${log.transactionHash}:${log.index}`,
+          );
+          return false;
+        }
+
+        await repositories.events.save({
+          chainId: this.network.chainId,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          blockTimestamp,
+          eventName,
+          identity: args.identity.toLowerCase(),
+          previousChange: Number(args.previousChange),
+          args,
+        });
+        await apply(repositories);
+        return true;
+      });
+    } catch (error) {
+      // Lost a race against a concurrent insert of the same log
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === 'ER_DUP_ENTRY'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The indexer's repositories bound to a transaction
+   */
+  private withManager(manager: EntityManager): IndexerRepositories {
+    return {
+      events: manager.withRepository(this.eventRepository),
+      identities: manager.withRepository(this.identityRepository),
+      delegates: manager.withRepository(this.delegateRepository),
+      attributes: manager.withRepository(this.attributeRepository),
+      checkpoints: manager.withRepository(this.checkpointRepository),
+    };
+  }
+
+  // ===================================================================
+  // Derived state (Identity / Delegate / Attribute read model)
+  // ===================================================================
+
+  private async findOrCreateIdentity(
+    repositories: IndexerRepositories,
+    identity: string,
+  ): Promise<Identity> {
+    const identityEntity = await repositories.identities.findOne({
+      where: {
+        chainId: this.network.chainId,
+        address: identity.toLowerCase(),
+      },
+    });
+
+    if (identityEntity) {
+      return identityEntity;
+    }
+
+    return repositories.identities.save({
+      chainId: this.network.chainId,
+      address: identity.toLowerCase(),
+    });
+  }
+
+  private async applyOwnerChanged(
+    repositories: IndexerRepositories,
+    identity: string,
+    owner: string,
+  ) {
+    const identityEntity = await this.findOrCreateIdentity(
+      repositories,
+      identity,
+    );
+    identityEntity.controller = owner.toLowerCase();
+    await repositories.identities.save(identityEntity);
+  }
+
+  /**
+   * revokeDelegate emits validTo equal to the block timestamp, so a
+   * delegate whose validity ends at or before its own block is revoked
+   * rather than merely expiring later
+   */
+  private async applyDelegateChanged(
+    repositories: IndexerRepositories,
+    identity: string,
+    delegateType: string,
+    delegate: string,
+    validTo: number,
+    blockTimestamp: number,
+    log: { blockNumber: number; index: number },
+  ) {
+    const identityEntity = await this.findOrCreateIdentity(
+      repositories,
+      identity,
+    );
+    const revoked = validTo <= blockTimestamp;
+
+    // Find existing delegate or create new one
+    const delegateEntity = await repositories.delegates.findOne({
+      where: {
+        identity: {
+          chainId: this.network.chainId,
+          address: identity.toLowerCase(),
+        },
+        delegateType,
+        delegateAddress: delegate.toLowerCase(),
+      },
+    });
+
+    if (delegateEntity) {
+      delegateEntity.validTo = validTo;
+      delegateEntity.revoked = revoked;
+      await repositories.delegates.save(delegateEntity);
+    } else {
+      await repositories.delegates.save({
+        identity: identityEntity,
+        delegateType,
+        delegateAddress: delegate.toLowerCase(),
+        validTo,
+        revoked,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+      });
+    }
+  }
+
+  /**
+   * Attributes are keyed by (identity, name, value). revokeAttribute emits
+   * validTo = 0, which is always at or before the block timestamp.
+   */
+  private async applyAttributeChanged(
+    repositories: IndexerRepositories,
+    identity: string,
+    name: string,
+    rawValue: string,
+    validTo: number,
+    blockTimestamp: number,
+    log: { blockNumber: number; index: number },
+  ) {
+    const identityEntity = await this.findOrCreateIdentity(
+      repositories,
+      identity,
+    );
+    const valueHash = ethers.keccak256(rawValue);
+    const revoked = validTo <= blockTimestamp;
+
+    // Find existing attribute or create new one
+    const attributeEntity = await repositories.attributes.findOne({
+      where: {
+        identity: {
+          chainId: this.network.chainId,
+          address: identity.toLowerCase(),
+        },
+        name,
+        valueHash,
+      },
+    });
+
+    if (attributeEntity) {
+      attributeEntity.validTo = validTo;
+      attributeEntity.revoked = revoked;
+      await repositories.attributes.save(attributeEntity);
+    } else {
+      await repositories.attributes.save({
+        identity: identityEntity,
+        name,
+        value: this.decodeAttributeValue(rawValue),
+        valueHash,
+        validTo,
+        revoked,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+      });
+    }
+  }
+
+  /**
+   * Rebuild an identity's derived state by replaying its stored events
+   */
+  private async rebuildIdentity(
+    repositories: IndexerRepositories,
+    address: string,
+  ) {
+    const delegates = await repositories.delegates.find({
+      where: { identity: { chainId: this.network.chainId, address } },
+    });
+    await repositories.delegates.remove(delegates);
+
+    const attributes = await repositories.attributes.find({
+      where: { identity: { chainId: this.network.chainId, address } },
+    });
+    await repositories.attributes.remove(attributes);
+
+    const identityEntity = await repositories.identities.findOne({
+      where: { chainId: this.network.chainId, address },
+    });
+    if (identityEntity) {
+      identityEntity.controller = null;
+      await repositories.identities.save(identityEntity);
+    }
+
+    const events = await repositories.events
+      .createQueryBuilder('event')
+      .where('event.identity = :address', { address })
+      .andWhere('event.chainId = :chainId', { chainId: this.network.chainId })
+      .orderBy('event.blockNumber', 'ASC')
+      .addOrderBy('event.logIndex', 'ASC')
+      .getMany();
+
+    for (const event of events) {
+      const args = event.args as StoredEventArgs;
+
+      switch (event.eventName) {
+        case 'DIDOwnerChanged':
+          await this.applyOwnerChanged(repositories, address, args.owner!);
+          break;
+        case 'DIDDelegateChanged':
+          await this.applyDelegateChanged(
+            repositories,
+            address,
+            args.delegateType!,
+            args.delegate!,
+            Number(args.validTo),
+            event.blockTimestamp,
+            { blockNumber: event.blockNumber, index: event.logIndex },
+          );
+          break;
+        case 'DIDAttributeChanged':
+          await this.applyAttributeChanged(
+            repositories,
+            address,
+            args.name!,
+            args.value!,
+            Number(args.validTo),
+            event.blockTimestamp,
+            { blockNumber: event.blockNumber, index: event.logIndex },
+          );
+          break;
+      }
+    }
+  }
+
+  /**
+   * Delegates and attributes indexed before their log position was
+   * recorded have none, or 0 where the column defaulted to it. Replaying
+   * their identities' stored events fills it in.
+   */
+  private async backfillLogPositions() {
+    const where = [
+      { identity: { chainId: this.network.chainId }, blockNumber: IsNull() },
+      { identity: { chainId: this.network.chainId }, blockNumber: 0 },
+    ];
+    const entries = [
+      ...(await this.delegateRepository.find({
+        where,
+        relations: { identity: true },
+      })),
+      ...(await this.attributeRepository.find({
+        where,
+        relations: { identity: true },
+      })),
+    ];
+    if (entries.length === 0) return;
+
+    const addresses = new Set(entries.map((entry) => entry.identity.address));
+    this.logger.log(
+      `Backfilling log positions of ${addresses.size} identities`,
+    );
+
+    await this.eventRepository.manager.transaction(async (manager) => {
+      const repositories = this.withManager(manager);
+      for (const address of addresses) {
+        await this.rebuildIdentity(repositories, address);
+      }
+    });
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    this.blockTimestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  private decodeAttributeValue(value: string): string {
+    // Decode value to string if possible
+    try {
+      return ethers.toUtf8String(value);
+    } catch {
+      return ethers.hexlify(value);
+    }
+  }
+
+  // ===================================================================
+  // Chain reorganization handling
+  // ===================================================================
+
+  /**
+   * Check that the block following the checkpoint still builds on the
+   * block we processed last. Returns the block to resume from.
+   */
+  private async checkForReorg(fromBlock: number): Promise<number> {
+    const checkpoint = await this.getCheckpoint();
+    if (
+      !checkpoint?.lastProcessedBlockHash ||
+      checkpoint.lastProcessedBlock !== fromBlock - 1
+    ) {
+      return fromBlock;
+    }
+
+    const block = await this.provider.getBlock(fromBlock);
+    if (!block || block.parentHash === checkpoint.lastProcessedBlockHash) {
+      return fromBlock;
+    }
+
+    this.logger.warn(
+      `Reorg detected: block ${fromBlock} parent ${block.parentHash} does not match ` +
+        `checkpoint hash ${checkpoint.lastProcessedBlockHash}`,
+    );
+
+    const ancestor = await this.findCommonAncestor(
+      checkpoint.lastProcessedBlock,
+    );
+    await this.rollbackTo(ancestor);
+    return ancestor + 1;
+  }
+
+  /**
+   * Walk back through stored event blocks until one still matches the
+   * canonical chain. Blocks without events carry no state, so the highest
+   * matching event block is a safe point to replay from.
+   */
+  private async findCommonAncestor(fromBlock: number): Promise<number> {
+    const lowestBlock = Math.max(fromBlock - this.options.maxReorgDepth, 0);
+
+    const storedBlocks: { blockNumber: number; blockHash: string }[] =
+      await this.eventRepository
+        .createQueryBuilder('event')
+        .select('event.blockNumber', 'blockNumber')
+        .addSelect('event.blockHash', 'blockHash')
+        .where('event.chainId = :chainId', { chainId: this.network.chainId })
+        .andWhere('event.blockNumber > :lowestBlock', { lowestBlock })
+        .andWhere('event.blockNumber <= :fromBlock', { fromBlock })
+        .groupBy('event.blockNumber')
+        .addGroupBy('event.blockHash')
+        .orderBy('event.blockNumber', 'DESC')
+        .getRawMany();
+
+    for (const stored of storedBlocks) {
+      const block = await this.provider.getBlock(Number(stored.blockNumber));
+      if (block?.hash === stored.blockHash) {
+        return Number(stored.blockNumber);
+      }
+    }
+
+    return lowestBlock;
+  }
+
+  /**
+   * Drop every event above the given block, rebuild the derived state of
+   * the affected identities and notify clients and hooks of the reverted
+   * events
+   */
+  private async rollbackTo(blockNumber: number) {
+    const revertedEvents = await this.eventRepository.find({
+      where: {
+        chainId: this.network.chainId,
+        blockNumber: MoreThan(blockNumber),
+      },
+      order: { blockNumber: 'DESC', logIndex: 'DESC' },
+    });
+
+    this.logger.warn(
+      `Rolling back ${revertedEvents.length} events above block ${blockNumber}`,
+    );
+
+    const affectedIdentities = new Set<string>();
+    for (const event of revertedEvents) {
+      affectedIdentities.add(
+        (event.args as StoredEventArgs).identity.toLowerCase(),
+      );
+    }
+
+    // Derived state is rebuilt in the same transaction, so it never
+    // reflects events that are no longer stored
+    await this.eventRepository.manager.transaction(async (manager) => {
+      const repositories = this.withManager(manager);
+
+      if (revertedEvents.length > 0) {
+        await repositories.events.delete({
+          chainId: this.network.chainId,
+          blockNumber: MoreThan(blockNumber),
+        });
+      }
+
+      for (const address of affectedIdentities) {
+        await this.rebuildIdentity(repositories, address);
+      }
+    });
+
+    const block = await this.provider.getBlock(blockNumber);
+    await this.saveCheckpoint(blockNumber, block?.hash ?? undefined);
+
+    for (const event of revertedEvents) {
+      this.eventGateway.broadcastRevertedEvent(this.toDIDEvent(event));
+
+      if (event.eventName === 'DIDAttributeChanged') {
+        const args = event.args as StoredEventArgs;
+        await this.runHook('onAttributeReverted', {
+          chainId: event.chainId,
+          identity: args.identity,
+          name: args.name!,
+          value: args.value!,
+          validTo: Number(args.validTo),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+      }
+    }
+  }
+
+  private toDIDEvent(event: Event): DIDEvent {
+    const args = event.args as StoredEventArgs;
+    const types: Record<string, DIDEvent['type']> = {
+      DIDOwnerChanged: 'OwnerChanged',
+      DIDDelegateChanged: 'DelegateChanged',
+      DIDAttributeChanged: 'AttributeChanged',
+    };
+
+    return {
+      type: types[event.eventName],
+      chainId: event.chainId,
+      identity: args.identity,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      timestamp: Date.now(),
+      data: {
+        owner: args.owner,
+        delegate: args.delegate,
+        delegateType: args.delegateType,
+        name: args.name,
+        value: args.value,
+        validTo: args.validTo ? Number(args.validTo) : undefined,
+        previousChange: Number(args.previousChange),
+      },
+    };
+  }
+
+  stopListening() {
+    if (!this.isListening) return;
+
+    void this.provider.removeAllListeners('block');
+    this.isListening = false;
+    this.logger.log('Stopped listening to DID Registry events');
+  }
+
+  /**
+   * Sync past events from a specific block up to the last confirmed block.
+   * Blocks are fetched in bounded ranges and the checkpoint is advanced
+   * after each range, so an interrupted sync resumes where it stopped.
+   * Returns false if the sync was aborted by an error.
+   */
+  async syncFromBlock(fromBlock: number): Promise<boolean> {
+    if (this.isSyncing) {
+      this.logger.warn('Sync already in progress');
+      return false;
+    }
+
+    this.isSyncing = true;
+    this.logger.log(`Syncing events from block ${fromBlock}`);
+
+    const { batchSize } = this.options;
+
+    try {
+      let nextBlock = fromBlock;
+      let latestBlock = await this.getConfirmedBlockNumber();
+
+      // Re-read the head after each pass so blocks mined during a long
+      // backfill are picked up before switching to live events
+      while (nextBlock <= latestBlock) {
+        nextBlock = await this.checkForReorg(nextBlock);
+
+        const toBlock = Math.min(nextBlock + batchSize - 1, latestBlock);
+        const block = await this.provider.getBlock(toBlock);
+        await this.syncRange(nextBlock, toBlock);
+        await this.saveCheckpoint(toBlock, block?.hash ?? undefined);
+
+        nextBlock = toBlock + 1;
+        if (nextBlock > latestBlock) {
+          latestBlock = await this.getConfirmedBlockNumber();
+        }
+      }
+
+      this.logger.log(`Sync completed at block ${latestBlock}`);
+      return true;
+    } catch (error) {
+      this.logger.error('Error syncing events:', error);
+      return false;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private async getConfirmedBlockNumber(): Promise<number> {
+    const latestBlock = await this.provider.getBlockNumber();
+    return latestBlock - this.options.confirmations;
+  }
+
+  /**
+   * Process all registry events in [fromBlock, toBlock] in chain order
+   */
+  private async syncRange(fromBlock: number, toBlock: number) {
+    const events = await this.contract.queryFilter('*', fromBlock, toBlock);
+    this.blockTimestamps.clear();
+
+    if (events.length > 0) {
+      this.logger.log(
+        `Found ${events.length} events in blocks ${fromBlock}-${toBlock}`,
+      );
+    }
+
+    for (const event of events) {
+      if (!this.isEventLog(event)) continue;
+
+      switch (event.eventName) {
+        case 'DIDOwnerChanged': {
+          const args = event.args as unknown as [string, string, bigint];
+          await this.handleOwnerChanged(args[0], args[1], args[2], event);
+          break;
+        }
+        case 'DIDDelegateChanged': {
+          const args = event.args as unknown as [
+            string,
+            string,
+            string,
+            bigint,
+            bigint,
+          ];
+          await this.handleDelegateChanged(
+            args[0],
+            args[1],
+            args[2],
+            args[3],
+            args[4],
+            event,
+          );
+          break;
+        }
+        case 'DIDAttributeChanged': {
+          const args = event.args as unknown as [
+            string,
+            string,
+            string,
+            bigint,
+            bigint,
+          ];
+          await this.handleAttributeChanged(
+            args[0],
+            args[1],
+            args[2],
+            args[3],
+            args[4],
+            event,
+          );
+          break;
+        }
+      }
+    }
+  }
+
+  private async getCheckpoint(): Promise<SyncCheckpoint | null> {
+    return this.checkpointRepository.findOne({
+      where: {
+        chainId: this.network.chainId,
+        contractAddress: this.network.registry,
+      },
+    });
+  }
+
+  private getResumeBlock(checkpoint: SyncCheckpoint | null): number {
+    return checkpoint
+      ? checkpoint.lastProcessedBlock + 1
+      : this.options.startBlock;
+  }
+
+  /**
+   * Persist the last processed block for this chain and contract
+   */
+  private async saveCheckpoint(blockNumber: number, blockHash?: string) {
+    const checkpoint = await this.getCheckpoint();
+
+    if (checkpoint) {
+      checkpoint.lastProcessedBlock = blockNumber;
+      checkpoint.lastProcessedBlockHash = blockHash as string;
+      await this.checkpointRepository.save(checkpoint);
+    } else {
+      await this.checkpointRepository.save({
+        chainId: this.network.chainId,
+        contractAddress: this.network.registry,
+        lastProcessedBlock: blockNumber,
+        lastProcessedBlockHash: blockHash,
+      });
+    }
+  }
+
+  private isEventLog(event: Log | EventLog): event is EventLog {
+    return 'args' in event;
+  }
+}
@@ -0,0 +1,116 @@
+import { ethers } from 'ethers';
+import {
+  buildCredentialDomain,
+  CREDENTIAL_EIP712_PRIMARY_TYPE,
+  CredentialPayload,
+  getCredentialEip712Types,
+  toCredentialTypedMessage,
+} from './credential-eip712';
+
+const wallet = new ethers.Wallet(
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+);
+const ISSUER = `did:ethr:0x7a69:${wallet.address.toLowerCase()}`;
+const REGISTRY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const payload: CredentialPayload = {
+  '@context': ['https://www.w3.org/2018/credentials/v1'],
+  type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+  issuer: ISSUER,
+  issuanceDate: '2026-01-01T00:00:00.000Z',
+  credentialSubject: {
+    id: 'did:ethr:0x7a69:0x0000000000000000000000000000000000000001',
+    name: 'Alice',
+    degree: { type: 'BachelorDegree' },
+  },
+};
+
+const payloadWithReferences: CredentialPayload = {
+  ...payload,
+  credentialSchema: {
+    id: 'https://example.com/schemas/1',
+    type: 'JsonSchema',
+  },
+  credentialStatus: [
+    {
+      id: 'https://example.com/status/1#5',
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: '5',
+      statusListCredential: 'https://example.com/status/1',
+    },
+  ],
+};
+
+describe('credential EIP-712 encoding', () => {
+  const domain = buildCredentialDomain(ISSUER, 31337, REGISTRY);
+
+  async function sign(credential: CredentialPayload) {
+    const types = getCredentialEip712Types(credential);
+    const message = toCredentialTypedMessage(credential);
+
+    return {
+      digest: ethers.TypedDataEncoder.hash(domain, types, message),
+      encodedType: ethers.TypedDataEncoder.from(types).encodeType(
+        CREDENTIAL_EIP712_PRIMARY_TYPE,
+      ),
+      signature: await wallet.signTypedData(domain, types, message),
+      signer: (signature: string) =>
+        ethers.verifyTypedData(domain, types, message, signature),
+    };
+  }
+
+  it('should salt the domain with the hash of the issuer DID', () => {
+    expect(domain.salt).toBe(
+      '0xc0cc2dae78dd461cbadf1e078da7b28d13dfde49648a0ad3cc134922d0367e55',
+    );
+  });
+
+  it('should match the known vector of a credential without references', async () => {
+    const { digest, encodedType, signature, signer } = await sign(payload);
+
+    expect(encodedType).toBe(
+      'VerifiableCredential(string[] context,string[] type,string issuer,string issuanceDate,string expirationDate,CredentialSubject credentialSubject)' +
+        'Claim(string name,string value)' +
+        'CredentialSubject(string id,Claim[] claims)',
+    );
+    expect(digest).toBe(
+      '0xc8e24fe4cb7fa857666ad58d5ec075a6830319ddb7bcc83f005b7857b1c4a6c3',
+    );
+    expect(signature).toBe(
+      '0x38b28dec7bbddae616a84744b43879c9fae8f8f5e5d86567b10cf0fd5018699239b4ba71d6270149fb8277c2bccc0f9d64cc96ad0fbd41a770a1c0c58a77c1921c',
+    );
+    expect(signer(signature)).toBe(wallet.address);
+  });
+
+  it('should sign the schema and status references when present', async () => {
+    const { digest, encodedType, signature, signer } = await sign(
+      payloadWithReferences,
+    );
+
+    expect(encodedType).toBe(
+      'VerifiableCredential(string[] context,string[] type,string issuer,string issuanceDate,string expirationDate,CredentialSubject credentialSubject,CredentialSchema credentialSchema,CredentialStatus[] credentialStatus)' +
+        'Claim(string name,string value)' +
+        'CredentialSchema(string id,string type)' +
+        'CredentialStatus(string id,string type,string statusPurpose,string statusListIndex,string statusListCredential)' +
+        'CredentialSubject(string id,Claim[] claims)',
+    );
+    expect(digest).toBe(
+      '0x4f1b756b81204726ff85f703029aed0eb4e6cff5ace6bdd7c495b2cd78d2c424',
+    );
+    expect(signature).toBe(
+      '0x4a71c0f3a8bb5294e615a7adb3afa43b793662832e0f401ed91c1dfc95acc7d3007bcc044268bce954315cdef9b2864000805840f676ea9f21a320b9d61a83191c',
+    );
+    expect(signer(signature)).toBe(wallet.address);
+  });
+
+  it('should not recover the issuer for a changed claim', async () => {
+    const { signature } = await sign(payload);
+    const { signer } = await sign({
+      ...payload,
+      credentialSubject: { ...payload.credentialSubject, name: 'Mallory' },
+    });
+
+    expect(signer(signature)).not.toBe(wallet.address);
+  });
+});
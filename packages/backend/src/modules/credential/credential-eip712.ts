@@ -0,0 +1,160 @@
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers';
+import { canonicalize } from '../../common/canonicalize';
+
+export const EIP712_PROOF_TYPE = 'EthereumEip712Signature2021';
+
+// A credentialStatus entry (StatusList2021Entry, or id and type only)
+export interface CredentialStatusReference {
+  id: string;
+  type: string;
+  statusPurpose?: string;
+  statusListIndex?: string;
+  statusListCredential?: string;
+}
+
+// Unsigned credential as assembled by issuer and verifier
+export interface CredentialPayload {
+  '@context': string[];
+  type: string[];
+  issuer: string;
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSubject: {
+    id: string;
+    [key: string]: unknown;
+  };
+  credentialSchema?: { id: string; type: string };
+  credentialStatus?: CredentialStatusReference | CredentialStatusReference[];
+}
+
+/**
+ * Typed-data layout of a credential. Claims are listed as name/value
+ * pairs so wallets can show them to the issuer field by field.
+ */
+export const CREDENTIAL_EIP712_TYPES: Record<string, TypedDataField[]> = {
+  VerifiableCredential: [
+    { name: 'context', type: 'string[]' },
+    { name: 'type', type: 'string[]' },
+    { name: 'issuer', type: 'string' },
+    { name: 'issuanceDate', type: 'string' },
+    { name: 'expirationDate', type: 'string' },
+    { name: 'credentialSubject', type: 'CredentialSubject' },
+  ],
+  CredentialSubject: [
+    { name: 'id', type: 'string' },
+    { name: 'claims', type: 'Claim[]' },
+  ],
+  Claim: [
+    { name: 'name', type: 'string' },
+    { name: 'value', type: 'string' },
+  ],
+};
+
+// Layouts of the schema and status references, which are signed when a
+// credential has them
+const CREDENTIAL_SCHEMA_EIP712_TYPE: TypedDataField[] = [
+  { name: 'id', type: 'string' },
+  { name: 'type', type: 'string' },
+];
+const CREDENTIAL_STATUS_EIP712_TYPE: TypedDataField[] = [
+  { name: 'id', type: 'string' },
+  { name: 'type', type: 'string' },
+  { name: 'statusPurpose', type: 'string' },
+  { name: 'statusListIndex', type: 'string' },
+  { name: 'statusListCredential', type: 'string' },
+];
+
+export const CREDENTIAL_EIP712_PRIMARY_TYPE = 'VerifiableCredential';
+
+/**
+ * Typed-data layout for a credential, depending on whether it references
+ * a schema and status entries. Leaving them out of the layout otherwise
+ * keeps the type hash, and so the signatures, of credentials without them.
+ */
+export function getCredentialEip712Types(
+  payload: CredentialPayload,
+): Record<string, TypedDataField[]> {
+  const types: Record<string, TypedDataField[]> = {
+    ...CREDENTIAL_EIP712_TYPES,
+    VerifiableCredential: [...CREDENTIAL_EIP712_TYPES.VerifiableCredential],
+  };
+
+  if (payload.credentialSchema) {
+    types.VerifiableCredential.push({
+      name: 'credentialSchema',
+      type: 'CredentialSchema',
+    });
+    types.CredentialSchema = CREDENTIAL_SCHEMA_EIP712_TYPE;
+  }
+  if (payload.credentialStatus) {
+    types.VerifiableCredential.push({
+      name: 'credentialStatus',
+      type: 'CredentialStatus[]',
+    });
+    types.CredentialStatus = CREDENTIAL_STATUS_EIP712_TYPE;
+  }
+
+  return types;
+}
+
+/**
+ * Domain bound to the issuer's chain and registry, and to the issuer
+ * itself through the salt, so a signature cannot be replayed for
+ * another issuer DID or network
+ */
+export function buildCredentialDomain(
+  issuerDid: string,
+  chainId: number,
+  registry: string,
+): TypedDataDomain {
+  return {
+    name: 'Ethereum DID Verifiable Credential',
+    version: '1',
+    chainId,
+    verifyingContract: ethers.getAddress(registry),
+    salt: ethers.id(issuerDid),
+  };
+}
+
+/**
+ * Map a credential onto getCredentialEip712Types(payload). Claims are
+ * sorted by name and non-string values JCS-canonicalized, so the message
+ * does not depend on key order.
+ */
+export function toCredentialTypedMessage(
+  payload: CredentialPayload,
+): Record<string, unknown> {
+  const { id, ...claims } = payload.credentialSubject;
+
+  return {
+    context: payload['@context'],
+    type: payload.type,
+    issuer: payload.issuer,
+    issuanceDate: payload.issuanceDate,
+    expirationDate: payload.expirationDate ?? '',
+    credentialSubject: {
+      id,
+      claims: Object.keys(claims)
+        .sort()
+        .map((name) => ({
+          name,
+          value:
+            typeof claims[name] === 'string'
+              ? claims[name]
+              : canonicalize(claims[name]),
+        })),
+    },
+    ...(payload.credentialSchema && {
+      credentialSchema: payload.credentialSchema,
+    }),
+    ...(payload.credentialStatus && {
+      credentialStatus: [payload.credentialStatus].flat().map((entry) => ({
+        id: entry.id,
+        type: entry.type,
+        statusPurpose: entry.statusPurpose ?? '',
+        statusListIndex: entry.statusListIndex ?? '',
+        statusListCredential: entry.statusListCredential ?? '',
+      })),
+    }),
+  };
+}
@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import {
+  decodeJwt,
+  jwtToCredential,
+  recoverEs256kSigner,
+  verifyEs256kSignature,
+  VcJwtPayload,
+} from './credential-jwt';
+
+const wallet = new ethers.Wallet(
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+);
+const ISSUER = `did:ethr:0x7a69:${wallet.address.toLowerCase()}`;
+const SUBJECT = 'did:ethr:0x7a69:0x0000000000000000000000000000000000000001';
+
+const payload: VcJwtPayload = {
+  iss: ISSUER,
+  sub: SUBJECT,
+  nbf: 1767225600,
+  iat: 1767225600,
+  exp: 1798761600,
+  jti: 'urn:uuid:6f1c2f0e-5d4b-4c1a-9e0f-2a3b4c5d6e7f',
+  vc: {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+    credentialSubject: { name: 'Alice' },
+  },
+};
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(alg: 'ES256K' | 'ES256K-R', body: unknown = payload) {
+  const signingInput = `${encode({ alg, typ: 'JWT', kid: `${ISSUER}#controller` })}.${encode(body)}`;
+  const { r, s, v } = wallet.signingKey.sign(
+    ethers.sha256(ethers.toUtf8Bytes(signingInput)),
+  );
+  const signature = ethers.concat(
+    alg === 'ES256K-R' ? [r, s, ethers.toBeHex(v - 27, 1)] : [r, s],
+  );
+
+  return `${signingInput}.${Buffer.from(ethers.getBytes(signature)).toString('base64url')}`;
+}
+
+describe('credential JWT encoding', () => {
+  it('should decode the header, payload and signature of a compact JWS', () => {
+    const jwt = signJwt('ES256K-R');
+    const decoded = decodeJwt(jwt);
+
+    expect(decoded.header).toEqual({
+      alg: 'ES256K-R',
+      typ: 'JWT',
+      kid: `${ISSUER}#controller`,
+    });
+    expect(decoded.payload).toEqual(payload);
+    expect(decoded.signingInput).toBe(jwt.slice(0, jwt.lastIndexOf('.')));
+    expect(decoded.signature).toHaveLength(65);
+  });
+
+  it('should reject tokens that are not verifiable credentials', () => {
+    expect(() => decodeJwt('a.b')).toThrow('JWT must have three parts');
+    expect(() =>
+      decodeJwt(`${encode({ alg: 'ES256K' })}.${encode({ iss: ISSUER })}.`),
+    ).toThrow('JWT is not a verifiable credential');
+  });
+
+  it('should map the registered claims onto the credential', () => {
+    expect(jwtToCredential(payload)).toEqual({
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      id: payload.jti,
+      type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+      issuer: ISSUER,
+      issuanceDate: '2026-01-01T00:00:00.000Z',
+      expirationDate: '2027-01-01T00:00:00.000Z',
+      credentialSubject: { id: SUBJECT, name: 'Alice' },
+      credentialSchema: undefined,
+      credentialStatus: undefined,
+    });
+  });
+
+  it('should fall back to iat and credentialSubject.id', () => {
+    const credential = jwtToCredential({
+      ...payload,
+      sub: undefined,
+      nbf: undefined,
+      exp: undefined,
+      vc: {
+        ...payload.vc,
+        credentialSubject: { id: SUBJECT, name: 'Alice' },
+      },
+    });
+
+    expect(credential.issuanceDate).toBe('2026-01-01T00:00:00.000Z');
+    expect(credential.expirationDate).toBeUndefined();
+    expect(credential.credentialSubject.id).toBe(SUBJECT);
+  });
+
+  it('should reject a payload without a subject or issuance time', () => {
+    expect(() => jwtToCredential({ ...payload, sub: undefined })).toThrow(
+      'JWT has neither sub nor credentialSubject.id',
+    );
+    expect(() =>
+      jwtToCredential({ ...payload, nbf: undefined, iat: undefined }),
+    ).toThrow('JWT has neither nbf nor iat');
+  });
+
+  it('should recover the signer of an ES256K-R signature', () => {
+    const { signingInput, signature } = decodeJwt(signJwt('ES256K-R'));
+
+    expect(recoverEs256kSigner(signingInput, signature)).toBe(wallet.address);
+  });
+
+  it('should not recover the signer over a changed payload', () => {
+    const { signature } = decodeJwt(signJwt('ES256K-R'));
+    const { signingInput } = decodeJwt(
+      signJwt('ES256K-R', { ...payload, sub: ISSUER }),
+    );
+
+    expect(recoverEs256kSigner(signingInput, signature)).not.toBe(
+      wallet.address,
+    );
+    expect(() =>
+      recoverEs256kSigner(signingInput, signature.slice(0, 64)),
+    ).toThrow('ES256K-R signature must be 65 bytes');
+  });
+
+  it('should verify an ES256K signature against the public key', () => {
+    const { signingInput, signature } = decodeJwt(signJwt('ES256K'));
+
+    expect(signature).toHaveLength(64);
+    expect(
+      verifyEs256kSignature(
+        signingInput,
+        signature,
+        wallet.signingKey.publicKey,
+      ),
+    ).toBe(true);
+    expect(
+      verifyEs256kSignature(
+        signingInput,
+        signature,
+        wallet.signingKey.compressedPublicKey.slice(2),
+      ),
+    ).toBe(true);
+  });
+
+  it('should reject a tampered ES256K signature or another key', () => {
+    const { signingInput, signature } = decodeJwt(signJwt('ES256K'));
+    const tampered = Uint8Array.from(signature);
+    tampered[63] ^= 0x01;
+
+    expect(
+      verifyEs256kSignature(
+        signingInput,
+        signature,
+        ethers.Wallet.createRandom().signingKey.publicKey,
+      ),
+    ).toBe(false);
+    expect(
+      verifyEs256kSignature(
+        signingInput,
+        tampered,
+        wallet.signingKey.publicKey,
+      ),
+    ).toBe(false);
+    expect(verifyEs256kSignature(signingInput, signature, '0x1234')).toBe(
+      false,
+    );
+  });
+});
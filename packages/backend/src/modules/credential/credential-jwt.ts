@@ -0,0 +1,172 @@
+import { ethers } from 'ethers';
+import { CredentialPayload } from './credential-eip712';
+
+export const JWT_PROOF_TYPE = 'JwtProof2020';
+export const VC_JWT_MEDIA_TYPE = 'application/vc+jwt';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+// VC Data Model 1.1 JWT encoding: registered claims carry the
+// identifiers and dates, "vc" carries the rest of the credential
+export interface VcJwtPayload {
+  iss: string;
+  sub?: string;
+  nbf?: number;
+  exp?: number;
+  iat?: number;
+  jti?: string;
+  vc: {
+    '@context': string[];
+    type: string[];
+    credentialSubject: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: VcJwtPayload;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/**
+ * Split and decode a compact JWS. Throws if it is malformed or does not
+ * carry a "vc" claim.
+ */
+export function decodeJwt(jwt: string): DecodedJwt {
+  const parts = jwt.split('.');
+  if (parts.length !== 3) {
+    throw new Error('JWT must have three parts');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = JSON.parse(
+    ethers.toUtf8String(ethers.decodeBase64(toBase64(encodedHeader))),
+  ) as JwtHeader;
+  const payload = JSON.parse(
+    ethers.toUtf8String(ethers.decodeBase64(toBase64(encodedPayload))),
+  ) as VcJwtPayload;
+
+  if (!payload.iss || !payload.vc?.credentialSubject) {
+    throw new Error('JWT is not a verifiable credential');
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: ethers.decodeBase64(toBase64(encodedSignature)),
+  };
+}
+
+/**
+ * Map a vc-jwt payload back onto the credential shape:
+ * iss -> issuer, sub -> credentialSubject.id, nbf -> issuanceDate,
+ * exp -> expirationDate, jti -> id
+ */
+export function jwtToCredential(
+  payload: VcJwtPayload,
+): CredentialPayload & { id?: string } {
+  const { id: subjectId, ...claims } = payload.vc.credentialSubject;
+  const issuanceTime = payload.nbf ?? payload.iat;
+  if (!issuanceTime) {
+    throw new Error('JWT has neither nbf nor iat');
+  }
+  const subjectDid = payload.sub ?? subjectId;
+  if (typeof subjectDid !== 'string' || !subjectDid) {
+    throw new Error('JWT has neither sub nor credentialSubject.id');
+  }
+
+  return {
+    '@context': payload.vc['@context'],
+    id: payload.jti,
+    type: payload.vc.type,
+    issuer: payload.iss,
+    issuanceDate: toIsoString(issuanceTime),
+    expirationDate: payload.exp ? toIsoString(payload.exp) : undefined,
+    credentialSubject: {
+      id: subjectDid,
+      ...claims,
+    },
+    credentialSchema: payload.vc.credentialSchema as
+      | CredentialPayload['credentialSchema']
+      | undefined,
+    credentialStatus: payload.vc.credentialStatus as
+      | CredentialPayload['credentialStatus']
+      | undefined,
+  };
+}
+
+/**
+ * ES256K-R: recover the signer's address from a 65-byte r || s || v
+ * signature over sha256(signingInput)
+ */
+export function recoverEs256kSigner(
+  signingInput: string,
+  signature: Uint8Array,
+): string {
+  if (signature.length !== 65) {
+    throw new Error('ES256K-R signature must be 65 bytes');
+  }
+
+  const recovery = signature[64] >= 27 ? signature[64] - 27 : signature[64];
+  return ethers.recoverAddress(
+    ethers.sha256(ethers.toUtf8Bytes(signingInput)),
+    {
+      r: ethers.hexlify(signature.slice(0, 32)),
+      s: ethers.hexlify(signature.slice(32, 64)),
+      v: 27 + recovery,
+    },
+  );
+}
+
+/**
+ * ES256K: check a 64-byte r || s signature over sha256(signingInput)
+ * against a secp256k1 public key (hex, compressed or not)
+ */
+export function verifyEs256kSignature(
+  signingInput: string,
+  signature: Uint8Array,
+  publicKeyHex: string,
+): boolean {
+  if (signature.length !== 64) return false;
+
+  const digest = ethers.sha256(ethers.toUtf8Bytes(signingInput));
+  let expected: string;
+  try {
+    expected = ethers.SigningKey.computePublicKey(
+      `0x${publicKeyHex.replace(/^0x/, '')}`,
+      true,
+    );
+  } catch {
+    return false; // Not a secp256k1 key
+  }
+
+  // No recovery bit: the key matches if either candidate recovers it
+  return [27, 28].some((v) => {
+    try {
+      const recovered = ethers.SigningKey.recoverPublicKey(digest, {
+        r: ethers.hexlify(signature.slice(0, 32)),
+        s: ethers.hexlify(signature.slice(32, 64)),
+        v,
+      });
+      return ethers.SigningKey.computePublicKey(recovered, true) === expected;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function toBase64(base64url: string): string {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+}
+
+function toIsoString(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
@@ -0,0 +1,17 @@
+import { ethers } from 'ethers';
+
+// Registry attribute under which an issuer anchors revocations. The value
+// is the hash of the credential id, so ids are not published on-chain.
+export const REVOCATION_ATTRIBUTE = 'did/revoked';
+
+// Validity to set the attribute with. Any DIDAttributeChanged event for
+// the hash counts as a revocation, even once the attribute has lapsed.
+export const REVOCATION_VALIDITY = 100 * 365 * 24 * 60 * 60;
+
+/**
+ * Attribute value anchoring the revocation of a credential:
+ * keccak256 of its id (urn:uuid:...)
+ */
+export function getRevocationHash(credentialId: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(credentialId));
+}
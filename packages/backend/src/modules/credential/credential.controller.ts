@@ -1,26 +1,100 @@
-import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
-import { CredentialService, IssueCredentialDto } from './credential.service';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  Res,
+  BadRequestException,
+  NotAcceptableException,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  CredentialService,
+  IssueCredentialDto,
+  StatusChangeRequest,
+  VerifiableCredential,
+} from './credential.service';
+import { VC_JWT_MEDIA_TYPE } from './credential-jwt';
+import { AuthGuard, CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
+
+// Representations of GET /api/credentials/:id, by Accept media type
+const JWT_MEDIA_TYPES = [VC_JWT_MEDIA_TYPE, 'application/jwt'];
+const JSON_MEDIA_TYPES = [
+  'application/vc+ld+json',
+  'application/ld+json',
+  'application/json',
+  'application/*',
+  '*/*',
+];
 
 @Controller('api/credentials')
 export class CredentialController {
   constructor(private readonly credentialService: CredentialService) {}
 
   /**
-   * Issue a new Verifiable Credential
+   * Issue a new Verifiable Credential, signed in as its issuer
    * POST /api/credentials/issue
    */
   @Post('issue')
-  async issue(@Body() dto: IssueCredentialDto) {
-    return this.credentialService.issue(dto);
+  @UseGuards(AuthGuard)
+  async issue(@CurrentUser() user: AuthUser, @Body() dto: IssueCredentialDto) {
+    return this.credentialService.issue(dto, user.did);
+  }
+
+  /**
+   * Reserve the status list entries of a credential before signing it;
+   * they go into its credentialStatus
+   * POST /api/credentials/status-entries
+   */
+  @Post('status-entries')
+  @UseGuards(AuthGuard)
+  async reserveStatus(
+    @CurrentUser() user: AuthUser,
+    @Body() body: { issuerDid: string },
+  ) {
+    if (!body.issuerDid) {
+      throw new BadRequestException('Issuer DID is required.');
+    }
+    return {
+      credentialStatus: await this.credentialService.reserveStatus(
+        body.issuerDid,
+        user.did,
+      ),
+    };
+  }
+
+  /**
+   * Register a Verifiable Credential issued as a vc-jwt (ES256K / ES256K-R),
+   * signed in as its issuer
+   * POST /api/credentials/issue/jwt
+   */
+  @Post('issue/jwt')
+  @UseGuards(AuthGuard)
+  async issueJwt(@CurrentUser() user: AuthUser, @Body() body: { jwt: string }) {
+    if (!body.jwt) {
+      throw new BadRequestException('JWT is required.');
+    }
+    return this.credentialService.issueJwt(body.jwt, user.did);
   }
 
   /**
-   * Verify a Verifiable Credential
-   * GET /api/credentials/:id/verify
+   * Verify a Verifiable Credential; with revocation=chain, revocation is
+   * checked against the DID registry only
+   * GET /api/credentials/:id/verify?revocation=chain
    */
   @Get(':id/verify')
-  async verify(@Param('id') id: string) {
-    return this.credentialService.verify(id);
+  async verify(
+    @Param('id') id: string,
+    @Query('revocation') revocation?: string,
+  ) {
+    return this.credentialService.verify(id, {
+      chainOnly: revocation === 'chain',
+    });
   }
 
   /**
@@ -33,11 +107,42 @@ export class CredentialController {
   }
 
   /**
-   * Get a credential by ID
+   * Get the revocation/suspension history of a credential
+   * GET /api/credentials/:id/status/history
+   */
+  @Get(':id/status/history')
+  async getStatusHistory(@Param('id') id: string) {
+    return this.credentialService.getStatusHistory(id);
+  }
+
+  /**
+   * Get a credential by ID, as JSON-LD or as a vc-jwt
+   * (Accept: application/vc+jwt) for credentials issued as JWTs
    * GET /api/credentials/:id
    */
   @Get(':id')
-  async findById(@Param('id') id: string) {
+  async findById(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+  ): Promise<VerifiableCredential | string> {
+    const mediaTypes = (accept ?? '*/*')
+      .split(',')
+      .map((type) => type.split(';')[0].trim().toLowerCase());
+    const mediaType = mediaTypes.find(
+      (type) =>
+        JWT_MEDIA_TYPES.includes(type) || JSON_MEDIA_TYPES.includes(type),
+    );
+
+    if (!mediaType) {
+      throw new NotAcceptableException(`Unsupported representation: ${accept}`);
+    }
+
+    if (JWT_MEDIA_TYPES.includes(mediaType)) {
+      res.type(VC_JWT_MEDIA_TYPE);
+      return this.credentialService.findJwtById(id);
+    }
+
     return this.credentialService.findById(id);
   }
 
@@ -61,18 +166,30 @@ export class CredentialController {
   }
 
   /**
-   * Revoke a credential
+   * Revoke a credential. No session is needed: the request itself is
+   * signed by the issuer and carries a single-use nonce.
    * POST /api/credentials/:id/revoke
    */
   @Post(':id/revoke')
-  async revoke(
-    @Param('id') id: string,
-    @Body() body: { issuerAddress: string; signature: string },
-  ) {
-    return this.credentialService.revoke(
-      id,
-      body.issuerAddress,
-      body.signature,
-    );
+  async revoke(@Param('id') id: string, @Body() body: StatusChangeRequest) {
+    return this.credentialService.revoke(id, body);
+  }
+
+  /**
+   * Temporarily suspend a credential, with a request signed like revoke
+   * POST /api/credentials/:id/suspend
+   */
+  @Post(':id/suspend')
+  async suspend(@Param('id') id: string, @Body() body: StatusChangeRequest) {
+    return this.credentialService.suspend(id, body);
+  }
+
+  /**
+   * Reinstate a suspended credential, with a request signed like revoke
+   * POST /api/credentials/:id/unsuspend
+   */
+  @Post(':id/unsuspend')
+  async unsuspend(@Param('id') id: string, @Body() body: StatusChangeRequest) {
+    return this.credentialService.unsuspend(id, body);
   }
 }
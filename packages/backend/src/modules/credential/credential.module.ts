@@ -3,10 +3,22 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { CredentialController } from './credential.controller';
 import { CredentialService } from './credential.service';
 import { Credential } from '../../entities/Credential';
+import { CredentialStatusChange } from '../../entities/CredentialStatusChange';
 import { DidModule } from '../did/did.module';
+import { NetworkModule } from '../network/network.module';
+import { StatusListModule } from '../status-list/status-list.module';
+import { SchemaModule } from '../schema/schema.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Credential]), DidModule],
+  imports: [
+    TypeOrmModule.forFeature([Credential, CredentialStatusChange]),
+    DidModule,
+    NetworkModule,
+    StatusListModule,
+    SchemaModule,
+    AuthModule,
+  ],
   controllers: [CredentialController],
   providers: [CredentialService],
   exports: [CredentialService],
@@ -1,15 +1,48 @@
 import {
   Injectable,
   BadRequestException,
+  ForbiddenException,
   NotFoundException,
+  NotAcceptableException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { ConfigService } from '@nestjs/config';
 import { Repository } from 'typeorm';
-import { ethers } from 'ethers';
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers';
+import { randomUUID } from 'crypto';
 import { Credential, CredentialStatus } from '../../entities/Credential';
-import { DidService } from '../did/did.service';
+import { CredentialStatusChange } from '../../entities/CredentialStatusChange';
+import { DidService, VerificationMethod } from '../did/did.service';
+import { getPublicKey } from '../did/did-keys';
+import { NetworkService } from '../network/network.service';
+import {
+  StatusListEntry,
+  StatusListService,
+} from '../status-list/status-list.service';
+import { StatusPurpose } from '../../entities/StatusList';
+import { SchemaService } from '../schema/schema.service';
+import { canonicalize } from '../../common/canonicalize';
+import {
+  buildCredentialDomain,
+  CREDENTIAL_EIP712_PRIMARY_TYPE,
+  CredentialPayload,
+  EIP712_PROOF_TYPE,
+  getCredentialEip712Types,
+  toCredentialTypedMessage,
+} from './credential-eip712';
+import {
+  decodeJwt,
+  DecodedJwt,
+  JWT_PROOF_TYPE,
+  jwtToCredential,
+  recoverEs256kSigner,
+  verifyEs256kSignature,
+} from './credential-jwt';
+import {
+  getRevocationHash,
+  REVOCATION_ATTRIBUTE,
+} from './credential-revocation';
 
 // W3C VC Data Model 1.1 compliant contexts
 const VC_CONTEXTS = [
@@ -17,16 +50,35 @@ const VC_CONTEXTS = [
   'https://w3id.org/security/suites/secp256k1-2019/v1',
 ];
 
+// Credential ids are stored as the uuid of a urn:uuid: URN
+const URN_UUID =
+  /^urn:uuid:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+// Status change reason of a revocation mirrored from the registry
+function toOnChainRevocationReason(transactionHash: string): string {
+  return `Revoked on-chain in ${transactionHash}`;
+}
+
 export interface IssueCredentialDto {
   issuerAddress: string;
+  issuerDid?: string; // e.g. a public-key DID of issuerAddress; defaults to did:ethr:<issuerAddress>
   subjectDid: string;
   type: string[];
   claims: Record<string, unknown>;
   issuanceDate: string; // ISO string from frontend
   expirationDate?: string;
-  signature: string; // Issuer's signature
+  signature: string; // Issuer's signature, or that of one of its assertion methods (e.g. a veriKey delegate)
+  verificationMethod?: string; // Method that signed, e.g. "#delegate-12-0"; found from the signer if omitted
+  // personal_sign over the JSON payload (default) or EIP-712 typed data
+  proofType?: 'EcdsaSecp256k1Signature2019' | typeof EIP712_PROOF_TYPE;
+  credentialSchema?: string; // Published schema (id or URL) the claims must match
+  credentialStatus: StatusListEntry[]; // Entries from reserveStatus, signed with the rest of the credential
 }
 
+// StatusList2021Entry, or the per-credential status URL for credentials
+// issued before status lists
+type CredentialStatusEntry = StatusListEntry | { id: string; type: string };
+
 // W3C VC Data Model 1.1 compliant structure
 export interface VerifiableCredential {
   '@context': string[];
@@ -39,47 +91,122 @@ export interface VerifiableCredential {
     id: string;
     [key: string]: unknown;
   };
-  credentialStatus?: {
-    id: string;
-    type: string;
-  };
+  // Revocation entry, followed by the suspension entry if there is one
+  credentialStatus?: CredentialStatusEntry | CredentialStatusEntry[];
+  credentialSchema?: { id: string; type: string };
   proof: CredentialProof;
 }
 
+export interface CredentialVerificationResult {
+  valid: boolean;
+  checks: {
+    signature: boolean;
+    signerValidAtIssuance: boolean;
+    notExpired: boolean;
+    notRevoked: boolean;
+    notSuspended: boolean;
+  };
+  credential?: VerifiableCredential;
+  error?: string;
+  details?: {
+    recoveredAddress: string;
+    issuerDid: string;
+    issuanceDate: string;
+    ownerAtIssuance: string;
+    wasValidSigner: boolean;
+    revokedOnChain: boolean | null; // null if the registry could not be read
+  };
+}
+
+// Signed request to revoke, suspend or unsuspend a credential. The
+// message commits to a fresh nonce and timestamp so it cannot be replayed.
+export interface StatusChangeRequest {
+  signerAddress: string; // Issuer DID's current owner or a sigAuth delegate
+  signature: string; // personal_sign over the status change message
+  nonce: string;
+  timestamp: string; // ISO string, must be within STATUS_CHANGE_SIGNATURE_TTL
+  reason?: string;
+}
+
+export interface VerifyOptions {
+  // Take revocation from registry state only, ignoring the backend's
+  // records, so the result does not depend on trusting this service
+  chainOnly?: boolean;
+}
+
 // W3C Data Integrity compliant proof
 interface CredentialProof {
   type: string;
   created: string;
   verificationMethod: string;
   proofPurpose: string;
-  proofValue: string; // Changed from 'signature' to 'proofValue' (W3C standard)
+  proofValue?: string; // Changed from 'signature' to 'proofValue' (W3C standard)
+  jwt?: string; // JwtProof2020: the credential as a signed vc-jwt
+  eip712?: {
+    domain: TypedDataDomain;
+    types: Record<string, TypedDataField[]>;
+    primaryType: string;
+  };
 }
 
 @Injectable()
 export class CredentialService {
   private readonly logger = new Logger(CredentialService.name);
   private readonly apiBaseUrl: string;
+  private readonly statusChangeTtl: number;
 
   constructor(
     @InjectRepository(Credential)
     private credentialRepository: Repository<Credential>,
+    @InjectRepository(CredentialStatusChange)
+    private statusChangeRepository: Repository<CredentialStatusChange>,
     private configService: ConfigService,
     private didService: DidService,
+    private networkService: NetworkService,
+    private statusListService: StatusListService,
+    private schemaService: SchemaService,
   ) {
     this.apiBaseUrl = this.configService.get<string>(
       'API_BASE_URL',
       'http://localhost:3001',
     );
+    this.statusChangeTtl = Number(
+      this.configService.get<number>('STATUS_CHANGE_SIGNATURE_TTL', 300),
+    );
   }
 
   /**
    * Issue a new Verifiable Credential (W3C VC Data Model 1.1 compliant)
    */
-  async issue(dto: IssueCredentialDto): Promise<VerifiableCredential> {
-    const issuerDid = `did:ethr:${dto.issuerAddress.toLowerCase()}`;
+  async issue(
+    dto: IssueCredentialDto,
+    signedInDid: string,
+  ): Promise<VerifiableCredential> {
+    const issuerDid = dto.issuerDid
+      ? this.didService.toCanonicalDid(dto.issuerDid)
+      : `did:ethr:${dto.issuerAddress.toLowerCase()}`;
+    this.assertSignedInAs(signedInDid, issuerDid);
+
+    const issuerAddress = this.didService.getAddress(issuerDid);
+    if (issuerAddress !== dto.issuerAddress.toLowerCase()) {
+      throw new BadRequestException(
+        'Issuer DID does not belong to the issuer address',
+      );
+    }
+
+    const credentialSchema = dto.credentialSchema
+      ? await this.schemaService.validateClaims(
+          dto.credentialSchema,
+          dto.claims,
+        )
+      : undefined;
+    const statusEntries = await this.claimStatusEntries(
+      issuerDid,
+      dto.credentialStatus,
+    );
 
     // Create the credential payload for signing (must match frontend exactly)
-    const credentialPayload = {
+    const credentialPayload: CredentialPayload = {
       '@context': VC_CONTEXTS,
       type: ['VerifiableCredential', ...dto.type],
       issuer: issuerDid,
@@ -89,77 +216,116 @@ export class CredentialService {
         id: dto.subjectDid,
         ...dto.claims,
       },
+      credentialSchema,
+      credentialStatus: statusEntries.credentialStatus,
     };
 
-    // Verify the signature
-    const message = JSON.stringify(credentialPayload);
-
-    try {
-      const recoveredAddress = ethers.verifyMessage(message, dto.signature);
-
-      if (recoveredAddress.toLowerCase() !== dto.issuerAddress.toLowerCase()) {
-        throw new BadRequestException(
-          'Invalid signature: signer does not match issuer',
-        );
-      }
-    } catch {
-      throw new BadRequestException('Invalid signature format');
-    }
-
     // Create W3C Data Integrity compliant proof
     const proof: CredentialProof = {
-      type: 'EcdsaSecp256k1Signature2019',
+      type: dto.proofType ?? 'EcdsaSecp256k1Signature2019',
       created: dto.issuanceDate,
       verificationMethod: `${issuerDid}#controller`,
       proofPurpose: 'assertionMethod',
       proofValue: dto.signature, // W3C standard field name
     };
+    if (proof.type === EIP712_PROOF_TYPE) {
+      proof.eip712 = {
+        domain: this.getEip712Domain(issuerDid),
+        types: getCredentialEip712Types(credentialPayload),
+        primaryType: CREDENTIAL_EIP712_PRIMARY_TYPE,
+      };
+    }
+
+    // Verify the signature
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = this.recoverSigner(
+        credentialPayload,
+        proof,
+      ).toLowerCase();
+    } catch {
+      throw new BadRequestException('Invalid signature format');
+    }
+
+    // The signer must be one of the issuer's current assertion methods;
+    // the issuer's own address only counts while it is still #controller
+    const method = await this.findAssertionMethod(
+      issuerDid,
+      recoveredAddress,
+      dto.verificationMethod,
+    );
+    if (!method) {
+      throw new BadRequestException(
+        'Invalid signature: signer is not an assertion method of the issuer',
+      );
+    }
+    proof.verificationMethod = method.id;
 
     // Save to database
+    const id = randomUUID();
     const credential = await this.credentialRepository.save({
+      id,
       issuer: issuerDid,
       subject: dto.subjectDid,
       type: ['VerifiableCredential', ...dto.type],
       claims: dto.claims,
+      credentialSchema: credentialSchema ?? null,
       issuanceDate: dto.issuanceDate,
       expirationDate: dto.expirationDate,
       status: CredentialStatus.ACTIVE,
+      ...statusEntries.columns,
+      revocationHash: getRevocationHash(`urn:uuid:${id}`),
       proof: JSON.stringify(proof),
     });
 
-    // Build credential status URL
-    const credentialId = `urn:uuid:${credential.id}`;
-    const credentialStatus = {
-      id: `${this.apiBaseUrl}/api/credentials/${encodeURIComponent(credentialId)}/status`,
-      type: 'CredentialStatusList2021',
-    };
-
     // Return W3C compliant VC
-    return {
-      '@context': VC_CONTEXTS,
-      id: credentialId,
-      type: credential.type,
-      issuer: issuerDid,
-      issuanceDate: dto.issuanceDate,
-      expirationDate: dto.expirationDate,
-      credentialSubject: {
-        id: dto.subjectDid,
-        ...dto.claims,
-      },
-      credentialStatus,
-      proof,
-    };
+    return this.toVerifiableCredential(credential);
   }
 
   /**
-   * Get credential status (W3C CredentialStatusList2021)
+   * Reserve the revocation and suspension entries of a credential the
+   * issuer is about to sign. They go into its credentialStatus, so that
+   * the issuer's signature covers them.
    */
-  async getStatus(credentialId: string): Promise<{
-    id: string;
-    type: string;
-    status: 'active' | 'revoked' | 'expired';
-    statusListIndex?: number;
-  }> {
+  async reserveStatus(
+    issuerDid: string,
+    signedInDid: string,
+  ): Promise<StatusListEntry[]> {
+    const issuer = this.didService.toCanonicalDid(issuerDid);
+    this.assertSignedInAs(signedInDid, issuer);
+    const revocation = await this.statusListService.allocate(
+      issuer,
+      StatusPurpose.REVOCATION,
+    );
+    const suspension = await this.statusListService.allocate(
+      issuer,
+      StatusPurpose.SUSPENSION,
+    );
+
+    return [
+      this.statusListService.toEntry(
+        revocation.listId,
+        revocation.index,
+        StatusPurpose.REVOCATION,
+      ),
+      this.statusListService.toEntry(
+        suspension.listId,
+        suspension.index,
+        StatusPurpose.SUSPENSION,
+      ),
+    ];
+  }
+
+  /**
+   * Get a credential's status by direct lookup. Verifiers should prefer
+   * the status list credential in credentialStatus, which does not tell
+   * the backend which credential is being checked.
+   */
+  async getStatus(credentialId: string): Promise<
+    CredentialStatusEntry & {
+      status: 'active' | 'revoked' | 'suspended' | 'expired';
+    }
+  > {
     const uuid = credentialId.replace('urn:uuid:', '');
 
     const credential = await this.credentialRepository.findOne({
@@ -171,10 +337,12 @@ export class CredentialService {
     }
 
     const now = new Date();
-    let status: 'active' | 'revoked' | 'expired' = 'active';
+    let status: 'active' | 'revoked' | 'suspended' | 'expired' = 'active';
 
     if (credential.status === CredentialStatus.REVOKED) {
       status = 'revoked';
+    } else if (credential.status === CredentialStatus.SUSPENDED) {
+      status = 'suspended';
     } else if (
       credential.expirationDate &&
       new Date(credential.expirationDate) < now
@@ -182,38 +350,20 @@ export class CredentialService {
       status = 'expired';
     }
 
-    return {
-      id: `${this.apiBaseUrl}/api/credentials/${encodeURIComponent(credentialId)}/status`,
-      type: 'CredentialStatusList2021',
-      status,
-    };
+    return { ...this.getRevocationStatus(credential), status };
   }
 
   /**
-   * Verify a Verifiable Credential (W3C compliant with time-based verification)
+   * Verify a stored Verifiable Credential (W3C compliant with time-based verification)
    *
    * This performs time-based verification:
    * - Checks if the signer was a valid owner/delegate at the time of issuance
    * - Not just the current state
    */
-  async verify(credentialId: string): Promise<{
-    valid: boolean;
-    checks: {
-      signature: boolean;
-      signerValidAtIssuance: boolean;
-      notExpired: boolean;
-      notRevoked: boolean;
-    };
-    credential?: VerifiableCredential;
-    error?: string;
-    details?: {
-      recoveredAddress: string;
-      issuerDid: string;
-      issuanceDate: string;
-      ownerAtIssuance: string;
-      wasValidSigner: boolean;
-    };
-  }> {
+  async verify(
+    credentialId: string,
+    options: VerifyOptions = {},
+  ): Promise<CredentialVerificationResult> {
     const uuid = credentialId.replace('urn:uuid:', '');
 
     const credential = await this.credentialRepository.findOne({
@@ -228,48 +378,140 @@ export class CredentialService {
           signerValidAtIssuance: false,
           notExpired: false,
           notRevoked: false,
+          notSuspended: false,
         },
         error: 'Credential not found',
       };
     }
 
-    const proof = JSON.parse(credential.proof) as CredentialProof;
+    return this.checkCredential(
+      this.toVerifiableCredential(credential),
+      credential.status,
+      credential.statusListId !== null,
+      options,
+    );
+  }
+
+  /**
+   * Verify a credential handed over as an object, e.g. embedded in a
+   * presentation. The proof is checked against the object itself; the
+   * revocation status is looked up if the credential was issued here.
+   */
+  async verifyCredential(
+    vc: VerifiableCredential,
+    options: VerifyOptions = {},
+  ): Promise<CredentialVerificationResult> {
+    const uuid = vc.id?.startsWith('urn:uuid:')
+      ? vc.id.replace('urn:uuid:', '')
+      : undefined;
+    const stored = uuid
+      ? await this.credentialRepository.findOne({ where: { id: uuid } })
+      : null;
+
+    return this.checkCredential(
+      vc,
+      stored?.status ?? CredentialStatus.ACTIVE,
+      stored ? stored.statusListId !== null : true,
+      options,
+    );
+  }
+
+  private async checkCredential(
+    vc: VerifiableCredential,
+    status: CredentialStatus,
+    statusSigned: boolean, // False for credentials issued before status lists
+    options: VerifyOptions,
+  ): Promise<CredentialVerificationResult> {
+    const proof = vc.proof;
     const now = new Date();
-    const issuanceDate = new Date(credential.issuanceDate);
 
-    // Check 1: Not revoked
-    const notRevoked = credential.status === CredentialStatus.ACTIVE;
+    // The JWT, not the surrounding object, is what the issuer signed
+    let credentialPayload: CredentialPayload = {
+      '@context': vc['@context'],
+      type: vc.type,
+      issuer: vc.issuer,
+      issuanceDate: vc.issuanceDate,
+      expirationDate: vc.expirationDate || undefined,
+      credentialSubject: vc.credentialSubject,
+      credentialSchema: vc.credentialSchema,
+      credentialStatus: statusSigned ? vc.credentialStatus : undefined,
+    };
+    let decodedJwt: DecodedJwt | undefined;
+    if (proof?.type === JWT_PROOF_TYPE) {
+      try {
+        decodedJwt = decodeJwt(proof.jwt ?? '');
+        credentialPayload = jwtToCredential(decodedJwt.payload);
+      } catch (error) {
+        this.logger.warn(`Invalid credential JWT: ${error}`);
+      }
+    }
+    const issuanceDate = new Date(credentialPayload.issuanceDate);
+
+    // Check 1: Not revoked (in our records or on-chain) or suspended
+    const revokedOnChain = await this.isRevokedOnChain(
+      credentialPayload.issuer,
+      vc.id,
+      options.chainOnly,
+    );
+    const notRevoked =
+      revokedOnChain !== true &&
+      (options.chainOnly
+        ? revokedOnChain === false
+        : status !== CredentialStatus.REVOKED);
+    const notSuspended = status !== CredentialStatus.SUSPENDED;
 
     // Check 2: Not expired
-    const notExpired = credential.expirationDate
-      ? new Date(credential.expirationDate) > now
+    const notExpired = credentialPayload.expirationDate
+      ? new Date(credentialPayload.expirationDate) > now
       : true;
 
     // Check 3: Verify signature
     let signatureValid = false;
     let recoveredAddress = '';
-    try {
-      // Reconstruct the exact same payload that was signed
-      const credentialPayload = {
-        '@context': VC_CONTEXTS,
-        type: credential.type,
-        issuer: credential.issuer,
-        issuanceDate: credential.issuanceDate,
-        expirationDate: credential.expirationDate || undefined,
-        credentialSubject: {
-          id: credential.subject,
-          ...credential.claims,
-        },
-      };
-
-      const message = JSON.stringify(credentialPayload);
-      recoveredAddress = ethers.verifyMessage(message, proof.proofValue);
-      const issuerAddress = credential.issuer.split(':').pop();
+    if (decodedJwt) {
+      try {
+        recoveredAddress = await this.verifyJwtSignature(decodedJwt);
+        signatureValid = true;
+      } catch (error) {
+        this.logger.warn(`JWT signature verification failed: ${error}`);
+      }
+    } else if (proof && proof.type !== JWT_PROOF_TYPE) {
+      try {
+        recoveredAddress = this.recoverSigner(
+          credentialPayload,
+          proof,
+          true,
+        ).toLowerCase();
 
-      signatureValid =
-        recoveredAddress.toLowerCase() === issuerAddress?.toLowerCase();
-    } catch {
-      signatureValid = false;
+        if (
+          !proof.verificationMethod ||
+          proof.verificationMethod === `${credentialPayload.issuer}#controller`
+        ) {
+          // Public-key DIDs carry the key, not the address, in the
+          // identifier; after an ownership change #controller is the
+          // owner's key as of issuance
+          signatureValid =
+            recoveredAddress ===
+              this.didService.getAddress(credentialPayload.issuer) ||
+            !!(await this.findAssertionMethod(
+              credentialPayload.issuer,
+              recoveredAddress,
+              `${credentialPayload.issuer}#controller`,
+              issuanceDate,
+            ));
+        } else {
+          // Delegate methods come and go, so look the method up as of issuance
+          const method = await this.findAssertionMethod(
+            credentialPayload.issuer,
+            recoveredAddress,
+            proof.verificationMethod,
+            issuanceDate,
+          );
+          signatureValid = !!method;
+        }
+      } catch {
+        signatureValid = false;
+      }
     }
 
     // Check 4: Time-based verification
@@ -281,19 +523,19 @@ export class CredentialService {
       try {
         // Get the owner at the time of issuance
         ownerAtIssuance = await this.didService.getOwnerAtTime(
-          credential.issuer,
+          credentialPayload.issuer,
           issuanceDate,
         );
 
         // Check if the recovered address was a valid signer at issuance time
         signerValidAtIssuance = await this.didService.wasValidSignerAtTime(
-          credential.issuer,
+          credentialPayload.issuer,
           recoveredAddress,
           issuanceDate,
         );
 
         this.logger.log(
-          `Time-based verification for ${credential.issuer}:` +
+          `Time-based verification for ${credentialPayload.issuer}:` +
             ` recovered=${recoveredAddress}, ownerAtIssuance=${ownerAtIssuance},` +
             ` wasValidSigner=${signerValidAtIssuance}`,
         );
@@ -306,7 +548,11 @@ export class CredentialService {
 
     // All checks must pass
     const valid =
-      signatureValid && signerValidAtIssuance && notExpired && notRevoked;
+      signatureValid &&
+      signerValidAtIssuance &&
+      notExpired &&
+      notRevoked &&
+      notSuspended;
 
     return {
       valid,
@@ -315,14 +561,19 @@ export class CredentialService {
         signerValidAtIssuance,
         notExpired,
         notRevoked,
+        notSuspended,
       },
-      credential: valid ? this.toVerifiableCredential(credential) : undefined,
+      // Report what the issuer actually signed
+      credential: valid
+        ? { ...vc, ...credentialPayload, id: vc.id, proof: vc.proof }
+        : undefined,
       details: {
         recoveredAddress,
-        issuerDid: credential.issuer,
-        issuanceDate: credential.issuanceDate,
+        issuerDid: credentialPayload.issuer,
+        issuanceDate: credentialPayload.issuanceDate,
         ownerAtIssuance,
         wasValidSigner: signerValidAtIssuance,
+        revokedOnChain,
       },
     };
   }
@@ -352,15 +603,212 @@ export class CredentialService {
   }
 
   /**
-   * Revoke a credential (only issuer can revoke)
+   * Revoke a credential (issuer DID owner or sigAuth delegate). Revocation is final.
    */
   async revoke(
     credentialId: string,
-    issuerAddress: string,
-    signature: string,
+    request: StatusChangeRequest,
   ): Promise<{ success: boolean; message: string }> {
+    const credential = await this.authorizeStatusChange(
+      credentialId,
+      request,
+      'Revoke',
+    );
+
+    await this.applyRevocation(
+      credential,
+      request.signerAddress,
+      request.reason,
+      request.nonce,
+    );
+
+    return { success: true, message: 'Credential revoked successfully' };
+  }
+
+  /**
+   * Mirror a revocation anchored in the registry (a did/revoked attribute
+   * set by the issuer identity) into the credential's records
+   */
+  async applyOnChainRevocation(
+    chainId: number,
+    identity: string,
+    revocationHash: string,
+    transactionHash: string,
+  ) {
+    const credential = await this.credentialRepository.findOne({
+      where: { revocationHash: revocationHash.toLowerCase() },
+    });
+    if (!credential || credential.status === CredentialStatus.REVOKED) {
+      return;
+    }
+
+    // Only the issuer's own identity can revoke its credentials
+    const issuer = this.networkService.parseEthrDid(credential.issuer);
+    if (
+      issuer?.network.chainId !== chainId ||
+      issuer.address !== identity.toLowerCase()
+    ) {
+      return;
+    }
+
+    await this.applyRevocation(
+      credential,
+      identity,
+      toOnChainRevocationReason(transactionHash),
+    );
+    this.logger.log(`Credential ${credential.id} revoked on-chain`);
+  }
+
+  /**
+   * Undo applyOnChainRevocation after a reorg dropped the transaction that
+   * anchored it. Only a revocation that is still the credential's latest
+   * status change is undone; the credential gets its previous status back.
+   */
+  async revertOnChainRevocation(
+    revocationHash: string,
+    transactionHash: string,
+  ) {
+    const credential = await this.credentialRepository.findOne({
+      where: { revocationHash: revocationHash.toLowerCase() },
+    });
+    if (!credential || credential.status !== CredentialStatus.REVOKED) {
+      return;
+    }
+
+    const [revocation, previous] = await this.statusChangeRepository.find({
+      where: { credentialId: credential.id },
+      order: { createdAt: 'DESC' },
+      take: 2,
+    });
+    if (revocation?.reason !== toOnChainRevocationReason(transactionHash)) {
+      return;
+    }
+
+    credential.status = previous?.status ?? CredentialStatus.ACTIVE;
+    await this.credentialRepository.save(credential);
+
+    if (credential.statusListId) {
+      await this.statusListService.setStatus(
+        credential.statusListId,
+        credential.statusListIndex!,
+        false,
+      );
+    }
+    await this.recordStatusChange(
+      credential,
+      revocation.signer,
+      `Revocation in ${transactionHash} reverted by a chain reorganization`,
+    );
+    this.logger.warn(
+      `On-chain revocation of credential ${credential.id} reverted by a reorg`,
+    );
+  }
+
+  /**
+   * Temporarily suspend an active credential (issuer DID owner or sigAuth delegate)
+   */
+  async suspend(
+    credentialId: string,
+    request: StatusChangeRequest,
+  ): Promise<{ success: boolean; message: string }> {
+    const credential = await this.authorizeStatusChange(
+      credentialId,
+      request,
+      'Suspend',
+    );
+
+    if (credential.status !== CredentialStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Cannot suspend a ${credential.status} credential`,
+      );
+    }
+
+    // Credentials issued before suspension support get their entry now
+    if (!credential.suspensionListId) {
+      const { listId, index } = await this.statusListService.allocate(
+        credential.issuer,
+        StatusPurpose.SUSPENSION,
+      );
+      credential.suspensionListId = listId;
+      credential.suspensionListIndex = index;
+    }
+
+    credential.status = CredentialStatus.SUSPENDED;
+    await this.credentialRepository.save(credential);
+
+    await this.statusListService.setStatus(
+      credential.suspensionListId,
+      credential.suspensionListIndex!,
+      true,
+    );
+    await this.recordStatusChange(
+      credential,
+      request.signerAddress,
+      request.reason,
+      request.nonce,
+    );
+
+    return { success: true, message: 'Credential suspended successfully' };
+  }
+
+  /**
+   * Reinstate a suspended credential (issuer DID owner or sigAuth delegate)
+   */
+  async unsuspend(
+    credentialId: string,
+    request: StatusChangeRequest,
+  ): Promise<{ success: boolean; message: string }> {
+    const credential = await this.authorizeStatusChange(
+      credentialId,
+      request,
+      'Unsuspend',
+    );
+
+    if (credential.status !== CredentialStatus.SUSPENDED) {
+      throw new BadRequestException('Credential is not suspended');
+    }
+
+    credential.status = CredentialStatus.ACTIVE;
+    await this.credentialRepository.save(credential);
+
+    await this.statusListService.setStatus(
+      credential.suspensionListId!,
+      credential.suspensionListIndex!,
+      false,
+    );
+    await this.recordStatusChange(
+      credential,
+      request.signerAddress,
+      request.reason,
+      request.nonce,
+    );
+
+    return { success: true, message: 'Credential reinstated successfully' };
+  }
+
+  /**
+   * Revocations, suspensions and reinstatements of a credential, oldest first
+   */
+  async getStatusHistory(
+    credentialId: string,
+  ): Promise<CredentialStatusChange[]> {
+    const uuid = credentialId.replace('urn:uuid:', '');
+
+    if (!(await this.credentialRepository.exists({ where: { id: uuid } }))) {
+      throw new NotFoundException('Credential not found');
+    }
+
+    return this.statusChangeRepository.find({
+      where: { credentialId: uuid },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Get a single credential by ID
+   */
+  async findById(credentialId: string): Promise<VerifiableCredential> {
     const uuid = credentialId.replace('urn:uuid:', '');
-    const issuerDid = `did:ethr:${issuerAddress.toLowerCase()}`;
 
     const credential = await this.credentialRepository.findOne({
       where: { id: uuid },
@@ -370,33 +818,254 @@ export class CredentialService {
       throw new NotFoundException('Credential not found');
     }
 
-    if (credential.issuer.toLowerCase() !== issuerDid.toLowerCase()) {
+    return this.toVerifiableCredential(credential);
+  }
+
+  /**
+   * Register a credential issued as a vc-jwt (ES256K or ES256K-R).
+   * The JWT is kept as-is in a JwtProof2020 proof; its jti, if any, must
+   * be of the form urn:uuid:<uuid> and becomes the credential id.
+   */
+  async issueJwt(
+    jwt: string,
+    signedInDid: string,
+  ): Promise<VerifiableCredential> {
+    let decoded: DecodedJwt;
+    let payload: ReturnType<typeof jwtToCredential>;
+    try {
+      decoded = decodeJwt(jwt);
+      payload = jwtToCredential(decoded.payload);
+    } catch (error) {
       throw new BadRequestException(
-        'Only the issuer can revoke this credential',
+        `Invalid credential JWT: ${error instanceof Error ? error.message : error}`,
       );
     }
 
-    // Verify signature for revocation
-    const revokeMessage = `Revoke credential: ${credentialId}`;
     try {
-      const recoveredAddress = ethers.verifyMessage(revokeMessage, signature);
-      if (recoveredAddress.toLowerCase() !== issuerAddress.toLowerCase()) {
-        throw new BadRequestException('Invalid revocation signature');
+      await this.verifyJwtSignature(decoded);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid JWT signature: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const uuid = payload.id ? URN_UUID.exec(payload.id)?.[1] : undefined;
+    if (payload.id && !uuid) {
+      throw new BadRequestException(
+        `Credential id (jti) must be a urn:uuid: URN: ${payload.id}`,
+      );
+    }
+    const id = uuid ?? randomUUID();
+    if (uuid && (await this.credentialRepository.exists({ where: { id } }))) {
+      throw new BadRequestException('Credential already exists');
+    }
+
+    const issuerDid = this.didService.toCanonicalDid(payload.issuer);
+    this.assertSignedInAs(signedInDid, issuerDid);
+    const { id: subjectDid, ...claims } = payload.credentialSubject;
+    if (payload.credentialSchema) {
+      await this.schemaService.validateClaims(
+        payload.credentialSchema.id,
+        claims,
+      );
+    }
+    const proof: CredentialProof = {
+      type: JWT_PROOF_TYPE,
+      created: payload.issuanceDate,
+      verificationMethod: decoded.header.kid ?? `${issuerDid}#controller`,
+      proofPurpose: 'assertionMethod',
+      jwt,
+    };
+
+    const statusEntries = await this.claimStatusEntries(
+      issuerDid,
+      payload.credentialStatus,
+    );
+
+    const credential = await this.credentialRepository.save({
+      id,
+      issuer: issuerDid,
+      subject: subjectDid.toLowerCase(),
+      type: payload.type,
+      claims,
+      credentialSchema: payload.credentialSchema ?? null,
+      issuanceDate: payload.issuanceDate,
+      expirationDate: payload.expirationDate,
+      status: CredentialStatus.ACTIVE,
+      ...statusEntries.columns,
+      revocationHash: getRevocationHash(`urn:uuid:${id}`),
+      proof: JSON.stringify(proof),
+    });
+
+    return this.toVerifiableCredential(credential);
+  }
+
+  /**
+   * Get a credential in its vc-jwt encoding. Only credentials issued as
+   * JWTs have one; their embedded-proof form cannot be re-signed here.
+   */
+  async findJwtById(credentialId: string): Promise<string> {
+    const uuid = credentialId.replace('urn:uuid:', '');
+
+    const credential = await this.credentialRepository.findOne({
+      where: { id: uuid },
+    });
+
+    if (!credential) {
+      throw new NotFoundException('Credential not found');
+    }
+
+    const proof = JSON.parse(credential.proof) as CredentialProof;
+    if (proof.type !== JWT_PROOF_TYPE || !proof.jwt) {
+      throw new NotAcceptableException('Credential was not issued as a JWT');
+    }
+
+    return proof.jwt;
+  }
+
+  /**
+   * Check a vc-jwt signature against the issuer's DID document as of
+   * its nbf (or iat), as for embedded proofs, and return the signer's
+   * address. The kid (or, without one, any assertionMethod) selects the
+   * verification method: ES256K-R signatures must recover its account,
+   * ES256K signatures must match its public key.
+   */
+  private async verifyJwtSignature(decoded: DecodedJwt): Promise<string> {
+    const { header, payload, signingInput, signature } = decoded;
+    const issuanceTime = payload.nbf ?? payload.iat;
+    if (!issuanceTime) {
+      throw new Error('JWT has neither nbf nor iat');
+    }
+    const didDocument = await this.didService.resolveAtTime(
+      payload.iss,
+      new Date(issuanceTime * 1000),
+    );
+
+    const assertionIds = didDocument.assertionMethod.map((method) =>
+      typeof method === 'string' ? method : method.id,
+    );
+    const kid = header.kid?.startsWith('#')
+      ? `${didDocument.id}${header.kid}`
+      : header.kid;
+    const candidates = didDocument.verificationMethod.filter(
+      (vm) => assertionIds.includes(vm.id) && (!kid || vm.id === kid),
+    );
+    if (candidates.length === 0) {
+      throw new Error(`No assertion method ${kid ?? ''} in ${didDocument.id}`);
+    }
+
+    if (header.alg === 'ES256K-R') {
+      const signer = recoverEs256kSigner(signingInput, signature).toLowerCase();
+      if (
+        !candidates.some(
+          (vm) => this.didService.getMethodAddress(vm) === signer,
+        )
+      ) {
+        throw new Error('Signer is not an assertion method of the issuer');
       }
-    } catch {
-      throw new BadRequestException('Invalid signature format');
+      return signer;
     }
 
-    credential.status = CredentialStatus.REVOKED;
-    await this.credentialRepository.save(credential);
+    if (header.alg === 'ES256K') {
+      const match = candidates.find((vm) => {
+        const publicKey = getPublicKey(vm);
+        return (
+          publicKey?.algorithm === 'Secp256k1' &&
+          verifyEs256kSignature(
+            signingInput,
+            signature,
+            ethers.hexlify(publicKey.bytes),
+          )
+        );
+      });
+      if (!match) {
+        throw new Error('Signature does not match any issuer public key');
+      }
+      return this.didService.getMethodAddress(match)!;
+    }
 
-    return { success: true, message: 'Credential revoked successfully' };
+    throw new Error(`Unsupported JWT algorithm: ${header.alg}`);
   }
 
   /**
-   * Get a single credential by ID
+   * Recover the issuer's address from the proof: EIP-712 typed data for
+   * EthereumEip712Signature2021, personal_sign over the JCS-canonicalized
+   * payload otherwise. Only credentials already issued may carry a legacy
+   * signature over the JSON.stringify output.
    */
-  async findById(credentialId: string): Promise<VerifiableCredential> {
+  private recoverSigner(
+    payload: CredentialPayload,
+    proof: CredentialProof,
+    allowLegacy = false,
+  ): string {
+    if (proof.type === EIP712_PROOF_TYPE) {
+      // The domain is rebuilt from the issuer DID rather than taken from
+      // the proof, so it cannot be swapped for another chain or issuer
+      return ethers.verifyTypedData(
+        this.getEip712Domain(payload.issuer),
+        getCredentialEip712Types(payload),
+        toCredentialTypedMessage(payload),
+        proof.proofValue ?? '',
+      );
+    }
+
+    const issuerAddress = this.didService.getAddress(payload.issuer);
+    const signer = ethers.verifyMessage(
+      canonicalize(payload),
+      proof.proofValue ?? '',
+    );
+    if (signer.toLowerCase() === issuerAddress || !allowLegacy) {
+      return signer;
+    }
+
+    // Credentials issued before canonicalization were signed by the issuer
+    // over the JSON.stringify output of the payload
+    const legacySigner = ethers.verifyMessage(
+      JSON.stringify(payload),
+      proof.proofValue ?? '',
+    );
+    return legacySigner.toLowerCase() === issuerAddress ? legacySigner : signer;
+  }
+
+  /**
+   * The issuer's assertion method controlled by the signer, optionally
+   * restricted to one method id (absolute or "#fragment"). With a date
+   * the DID document as of that time is used.
+   */
+  private async findAssertionMethod(
+    issuerDid: string,
+    signer: string,
+    methodId?: string,
+    at?: Date,
+  ): Promise<VerificationMethod | undefined> {
+    const didDocument = at
+      ? await this.didService.resolveAtTime(issuerDid, at)
+      : await this.didService.resolve(issuerDid);
+
+    const assertionIds = didDocument.assertionMethod.map((method) =>
+      typeof method === 'string' ? method : method.id,
+    );
+    const id = methodId?.startsWith('#')
+      ? `${didDocument.id}${methodId}`
+      : methodId;
+
+    return didDocument.verificationMethod.find(
+      (vm) =>
+        assertionIds.includes(vm.id) &&
+        (!id || vm.id === id) &&
+        this.didService.getMethodAddress(vm) === signer,
+    );
+  }
+
+  /**
+   * Load a credential and check the issuer's signature over
+   * "<action> credential: <id>" (plus "\nReason: <reason>" if given)
+   */
+  private async authorizeStatusChange(
+    credentialId: string,
+    request: StatusChangeRequest,
+    action: 'Revoke' | 'Suspend' | 'Unsuspend',
+  ): Promise<Credential> {
     const uuid = credentialId.replace('urn:uuid:', '');
 
     const credential = await this.credentialRepository.findOne({
@@ -407,7 +1076,250 @@ export class CredentialService {
       throw new NotFoundException('Credential not found');
     }
 
-    return this.toVerifiableCredential(credential);
+    const timestamp = new Date(request.timestamp).getTime();
+    if (
+      !request.nonce ||
+      isNaN(timestamp) ||
+      Math.abs(Date.now() - timestamp) > this.statusChangeTtl * 1000
+    ) {
+      throw new BadRequestException(
+        `${action} request needs a nonce and a current timestamp`,
+      );
+    }
+
+    if (
+      await this.statusChangeRepository.exists({
+        where: { nonce: request.nonce },
+      })
+    ) {
+      throw new BadRequestException('Nonce has already been used');
+    }
+
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = ethers
+        .verifyMessage(
+          this.getStatusChangeMessage(action, credentialId, request),
+          request.signature,
+        )
+        .toLowerCase();
+    } catch {
+      throw new BadRequestException('Invalid signature format');
+    }
+    if (recoveredAddress !== request.signerAddress?.toLowerCase()) {
+      throw new BadRequestException(
+        `Invalid ${action.toLowerCase()} signature`,
+      );
+    }
+
+    // Whoever controls the issuer DID now may change the status, so
+    // credentials stay revocable after an ownership transfer
+    if (
+      !(await this.didService.canAuthenticate(
+        credential.issuer,
+        recoveredAddress,
+      ))
+    ) {
+      throw new BadRequestException(
+        `Only the issuer DID's owner or a sigAuth delegate can ${action.toLowerCase()} this credential`,
+      );
+    }
+
+    return credential;
+  }
+
+  /**
+   * Message to personal_sign for a status change
+   */
+  private getStatusChangeMessage(
+    action: 'Revoke' | 'Suspend' | 'Unsuspend',
+    credentialId: string,
+    request: StatusChangeRequest,
+  ): string {
+    return (
+      `${action} credential: ${credentialId}` +
+      (request.reason ? `\nReason: ${request.reason}` : '') +
+      `\nNonce: ${request.nonce}` +
+      `\nTimestamp: ${request.timestamp}`
+    );
+  }
+
+  private async applyRevocation(
+    credential: Credential,
+    signer: string,
+    reason?: string,
+    nonce?: string,
+  ) {
+    credential.status = CredentialStatus.REVOKED;
+    await this.credentialRepository.save(credential);
+
+    if (credential.statusListId) {
+      await this.statusListService.setStatus(
+        credential.statusListId,
+        credential.statusListIndex!,
+        true,
+      );
+    }
+    await this.recordStatusChange(credential, signer, reason, nonce);
+  }
+
+  /**
+   * Whether the issuer anchored the credential's revocation in the
+   * registry. The indexed attributes answer unless the indexer is behind;
+   * fromChain reads chain state only. Null if that failed.
+   */
+  private async isRevokedOnChain(
+    issuerDid: string,
+    credentialId: string | undefined,
+    fromChain = false,
+  ): Promise<boolean | null> {
+    const ethrDid = this.networkService.parseEthrDid(issuerDid);
+    if (!ethrDid || !credentialId) return null;
+
+    const revocationHash = getRevocationHash(credentialId);
+    try {
+      if (!fromChain) {
+        const indexed = await this.didService.hasIndexedAttribute(
+          ethrDid.did,
+          REVOCATION_ATTRIBUTE,
+          revocationHash,
+        );
+        if (indexed !== null) return indexed;
+      }
+
+      const latestBlock = await this.didService.getLatestBlockNumber(
+        ethrDid.network.chainId,
+      );
+      const history = await this.didService.getIdentityHistory(
+        ethrDid.did,
+        latestBlock,
+        true,
+      );
+
+      return history.some((event) => {
+        const args = event.args as { name?: string; value?: string };
+        return (
+          event.eventName === 'DIDAttributeChanged' &&
+          args.name === REVOCATION_ATTRIBUTE &&
+          args.value?.toLowerCase() === revocationHash
+        );
+      });
+    } catch (error) {
+      this.logger.warn(`Could not read on-chain revocations: ${error}`);
+      return null;
+    }
+  }
+
+  private async recordStatusChange(
+    credential: Credential,
+    signer: string,
+    reason?: string,
+    nonce?: string,
+  ) {
+    await this.statusChangeRepository.save({
+      credentialId: credential.id,
+      status: credential.status,
+      reason: reason ?? null,
+      signer: signer.toLowerCase(),
+      nonce: nonce ?? null,
+    });
+  }
+
+  private getEip712Domain(issuerDid: string): TypedDataDomain {
+    const ethrDid = this.networkService.parseEthrDid(issuerDid);
+    if (!ethrDid) {
+      throw new BadRequestException(`Invalid issuer DID: ${issuerDid}`);
+    }
+
+    return buildCredentialDomain(
+      issuerDid,
+      ethrDid.network.chainId,
+      ethrDid.network.registry,
+    );
+  }
+
+  /**
+   * Only the issuer's own session may issue in its name
+   */
+  private assertSignedInAs(signedInDid: string, issuerDid: string) {
+    if (signedInDid !== issuerDid) {
+      throw new ForbiddenException(
+        `Signed in as ${signedInDid}, not as the issuer ${issuerDid}`,
+      );
+    }
+  }
+
+  /**
+   * Check that credentialStatus is exactly the revocation and suspension
+   * entries reserveStatus handed out to the issuer, and that no other
+   * credential holds them
+   */
+  private async claimStatusEntries(
+    issuerDid: string,
+    credentialStatus: unknown,
+  ) {
+    const [revocationEntry, suspensionEntry] = Array.isArray(credentialStatus)
+      ? (credentialStatus as Partial<StatusListEntry>[])
+      : [];
+    const revocation = await this.statusListService.resolveEntry(
+      revocationEntry ?? {},
+      issuerDid,
+      StatusPurpose.REVOCATION,
+    );
+    const suspension = await this.statusListService.resolveEntry(
+      suspensionEntry ?? {},
+      issuerDid,
+      StatusPurpose.SUSPENSION,
+    );
+
+    const entries = [
+      this.statusListService.toEntry(
+        revocation.listId,
+        revocation.index,
+        StatusPurpose.REVOCATION,
+      ),
+      this.statusListService.toEntry(
+        suspension.listId,
+        suspension.index,
+        StatusPurpose.SUSPENSION,
+      ),
+    ];
+    // The credential is served with the entries rebuilt from its columns,
+    // so the signed ones must match them exactly
+    if (canonicalize(entries) !== canonicalize(credentialStatus)) {
+      throw new BadRequestException(
+        'credentialStatus must be the entries returned by reserveStatus',
+      );
+    }
+
+    if (
+      await this.credentialRepository.exists({
+        where: [
+          {
+            statusListId: revocation.listId,
+            statusListIndex: revocation.index,
+          },
+          {
+            suspensionListId: suspension.listId,
+            suspensionListIndex: suspension.index,
+          },
+        ],
+      })
+    ) {
+      throw new BadRequestException(
+        'credentialStatus entries are already used by another credential',
+      );
+    }
+
+    return {
+      credentialStatus: entries,
+      columns: {
+        statusListId: revocation.listId,
+        statusListIndex: revocation.index,
+        suspensionListId: suspension.listId,
+        suspensionListIndex: suspension.index,
+      },
+    };
   }
 
   private toVerifiableCredential(credential: Credential): VerifiableCredential {
@@ -425,11 +1337,43 @@ export class CredentialService {
         id: credential.subject,
         ...credential.claims,
       },
-      credentialStatus: {
-        id: `${this.apiBaseUrl}/api/credentials/${encodeURIComponent(credentialId)}/status`,
-        type: 'CredentialStatusList2021',
-      },
+      credentialStatus: this.getCredentialStatus(credential),
+      credentialSchema: credential.credentialSchema ?? undefined,
       proof,
     };
   }
+
+  private getCredentialStatus(
+    credential: Credential,
+  ): NonNullable<VerifiableCredential['credentialStatus']> {
+    const revocation = this.getRevocationStatus(credential);
+    if (!credential.suspensionListId) {
+      return revocation;
+    }
+
+    return [
+      revocation,
+      this.statusListService.toEntry(
+        credential.suspensionListId,
+        credential.suspensionListIndex!,
+        StatusPurpose.SUSPENSION,
+      ),
+    ];
+  }
+
+  private getRevocationStatus(credential: Credential): CredentialStatusEntry {
+    if (credential.statusListId) {
+      return this.statusListService.toEntry(
+        credential.statusListId,
+        credential.statusListIndex!,
+        StatusPurpose.REVOCATION,
+      );
+    }
+
+    const credentialId = `urn:uuid:${credential.id}`;
+    return {
+      id: `${this.apiBaseUrl}/api/credentials/${encodeURIComponent(credentialId)}/status`,
+      type: 'CredentialStatusList2021',
+    };
+  }
 }
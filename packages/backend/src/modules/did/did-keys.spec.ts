@@ -0,0 +1,78 @@
+import { ethers } from 'ethers';
+import { getPublicKey, toKeyVerificationMethod } from './did-keys';
+
+const DID = 'did:ethr:0x1111111111111111111111111111111111111111';
+
+// Ed25519 key with a leading zero byte, which base58 writes as '1'
+const ED25519_KEY = `0x00${'ab'.repeat(31)}`;
+const SECP256K1_KEY = ethers.SigningKey.computePublicKey(
+  ethers.id('did-keys'),
+  true,
+);
+
+describe('did-keys', () => {
+  it.each(['hex', 'base64', 'base58', 'multibase', 'jwk'])(
+    'should encode raw key bytes as %s and read them back',
+    (encoding) => {
+      const vm = toKeyVerificationMethod(
+        `${DID}#key-0`,
+        DID,
+        'Ed25519',
+        encoding,
+        ED25519_KEY,
+      );
+
+      expect(vm?.type).toBe(
+        encoding === 'jwk' ? 'JsonWebKey2020' : 'Ed25519VerificationKey2020',
+      );
+      expect(ethers.hexlify(getPublicKey(vm!)!.bytes)).toBe(ED25519_KEY);
+    },
+  );
+
+  it('should take text values to be in the declared encoding', () => {
+    const base64 = Buffer.from(ethers.getBytes(ED25519_KEY)).toString('base64');
+    const vm = toKeyVerificationMethod(
+      `${DID}#key-0`,
+      DID,
+      'X25519',
+      'base64',
+      base64,
+    );
+
+    expect(vm).toMatchObject({
+      type: 'X25519KeyAgreementKey2020',
+      publicKeyBase64: base64,
+    });
+  });
+
+  it('should give secp256k1 JWKs both coordinates', () => {
+    const vm = toKeyVerificationMethod(
+      `${DID}#key-0`,
+      DID,
+      'Secp256k1',
+      'jwk',
+      SECP256K1_KEY,
+    );
+
+    expect(vm?.publicKeyJwk).toMatchObject({ kty: 'EC', crv: 'secp256k1' });
+    expect(vm?.publicKeyJwk?.y).toBeDefined();
+    expect(
+      ethers.SigningKey.computePublicKey(getPublicKey(vm!)!.bytes, true),
+    ).toBe(SECP256K1_KEY);
+  });
+
+  it('should skip unsupported algorithms, encodings and keys', () => {
+    const args = [`${DID}#key-0`, DID] as const;
+
+    expect(toKeyVerificationMethod(...args, 'RSA', 'hex', '0x01')).toBeNull();
+    expect(
+      toKeyVerificationMethod(...args, 'Ed25519', 'pem', ED25519_KEY),
+    ).toBeNull();
+    expect(
+      toKeyVerificationMethod(...args, 'Ed25519', 'hex', '0x0102'),
+    ).toBeNull();
+    expect(
+      toKeyVerificationMethod(...args, 'Ed25519', 'multibase', 'z' + 'x'),
+    ).toBeNull();
+  });
+});
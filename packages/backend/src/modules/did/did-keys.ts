@@ -0,0 +1,285 @@
+import { ethers } from 'ethers';
+import type { VerificationMethod } from './did.service';
+
+// Public keys published as did/pub/<algorithm>/<purpose>/<encoding>
+// attributes, and their verification method types and encodings
+
+export type KeyAlgorithm = 'Secp256k1' | 'Ed25519' | 'X25519';
+
+export interface PublicKey {
+  algorithm: KeyAlgorithm;
+  bytes: Uint8Array; // Compressed or uncompressed point for Secp256k1
+}
+
+export interface PublicKeyJwk {
+  kty: string;
+  crv: string;
+  x: string;
+  y?: string;
+}
+
+export const JSON_WEB_KEY_TYPE = 'JsonWebKey2020';
+const JSON_WEB_KEY_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+
+const KEY_ALGORITHMS: Record<
+  KeyAlgorithm,
+  {
+    type: string;
+    legacyTypes: string[];
+    context: string;
+    multicodec: number[]; // Varint prefix in publicKeyMultibase
+    jwk: { kty: string; crv: string };
+  }
+> = {
+  Secp256k1: {
+    type: 'EcdsaSecp256k1VerificationKey2019',
+    legacyTypes: ['Secp256k1VerificationKey2018'],
+    context: 'https://w3id.org/security/suites/secp256k1-2019/v1',
+    multicodec: [0xe7, 0x01],
+    jwk: { kty: 'EC', crv: 'secp256k1' },
+  },
+  Ed25519: {
+    type: 'Ed25519VerificationKey2020',
+    legacyTypes: ['Ed25519VerificationKey2018'],
+    context: 'https://w3id.org/security/suites/ed25519-2020/v1',
+    multicodec: [0xed, 0x01],
+    jwk: { kty: 'OKP', crv: 'Ed25519' },
+  },
+  X25519: {
+    type: 'X25519KeyAgreementKey2020',
+    legacyTypes: ['X25519KeyAgreementKey2019'],
+    context: 'https://w3id.org/security/suites/x25519-2020/v1',
+    multicodec: [0xec, 0x01],
+    jwk: { kty: 'OKP', crv: 'X25519' },
+  },
+};
+
+const KEY_ENCODINGS = ['hex', 'base64', 'base58', 'multibase', 'jwk'];
+
+/**
+ * Verification method for a did/pub attribute, or null if the algorithm,
+ * encoding or key is not supported. Raw bytes are indexed as 0x-hex and
+ * re-encoded as the attribute name says; text values are taken to be in
+ * that encoding already.
+ */
+export function toKeyVerificationMethod(
+  id: string,
+  controller: string,
+  algorithm: string,
+  encoding: string,
+  value: string,
+): VerificationMethod | null {
+  if (!(algorithm in KEY_ALGORITHMS) || !KEY_ENCODINGS.includes(encoding)) {
+    return null;
+  }
+
+  let key: PublicKey;
+  try {
+    key = {
+      algorithm: algorithm as KeyAlgorithm,
+      bytes: decodeKeyValue(algorithm as KeyAlgorithm, encoding, value),
+    };
+  } catch {
+    return null;
+  }
+
+  const { type } = KEY_ALGORITHMS[key.algorithm];
+  switch (encoding) {
+    case 'hex':
+      return {
+        id,
+        type,
+        controller,
+        publicKeyHex: ethers.hexlify(key.bytes).slice(2),
+      };
+    case 'base64':
+      return {
+        id,
+        type,
+        controller,
+        publicKeyBase64: Buffer.from(key.bytes).toString('base64'),
+      };
+    case 'base58':
+      return {
+        id,
+        type,
+        controller,
+        publicKeyBase58: ethers.encodeBase58(key.bytes),
+      };
+    case 'multibase':
+      return { id, type, controller, publicKeyMultibase: toMultibase(key) };
+    default:
+      return {
+        id,
+        type: JSON_WEB_KEY_TYPE,
+        controller,
+        publicKeyJwk: toJwk(key),
+      };
+  }
+}
+
+/**
+ * The public key a verification method carries, in whichever encoding
+ */
+export function getPublicKey(vm: VerificationMethod): PublicKey | undefined {
+  try {
+    if (vm.publicKeyJwk) {
+      return fromJwk(vm.publicKeyJwk);
+    }
+
+    const algorithm = (Object.keys(KEY_ALGORITHMS) as KeyAlgorithm[]).find(
+      (name) =>
+        KEY_ALGORITHMS[name].type === vm.type ||
+        KEY_ALGORITHMS[name].legacyTypes.includes(vm.type),
+    );
+    if (!algorithm) return undefined;
+
+    if (vm.publicKeyMultibase) {
+      return fromMultibase(vm.publicKeyMultibase);
+    }
+    const bytes = vm.publicKeyHex
+      ? ethers.getBytes(`0x${vm.publicKeyHex.replace(/^0x/, '')}`)
+      : vm.publicKeyBase64
+        ? Buffer.from(vm.publicKeyBase64, 'base64')
+        : vm.publicKeyBase58
+          ? decodeBase58(vm.publicKeyBase58)
+          : undefined;
+    return bytes && { algorithm, bytes };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JSON-LD contexts defining the verification method types in use
+ */
+export function getKeyContexts(methods: VerificationMethod[]): string[] {
+  return [
+    ...new Set(
+      methods.flatMap((vm) => {
+        if (vm.type === JSON_WEB_KEY_TYPE) return [JSON_WEB_KEY_CONTEXT];
+        const algorithm = Object.values(KEY_ALGORITHMS).find(
+          (a) => a.type === vm.type,
+        );
+        return algorithm ? [algorithm.context] : [];
+      }),
+    ),
+  ];
+}
+
+function decodeKeyValue(
+  algorithm: KeyAlgorithm,
+  encoding: string,
+  value: string,
+): Uint8Array {
+  let bytes: Uint8Array;
+  if (ethers.isHexString(value)) {
+    bytes = ethers.getBytes(value);
+  } else if (encoding === 'hex') {
+    bytes = ethers.getBytes(`0x${value}`);
+  } else if (encoding === 'base64') {
+    bytes = Buffer.from(value, 'base64');
+  } else if (encoding === 'base58') {
+    bytes = decodeBase58(value);
+  } else {
+    const key =
+      encoding === 'jwk'
+        ? fromJwk(JSON.parse(value) as PublicKeyJwk)
+        : fromMultibase(value);
+    if (key.algorithm !== algorithm) {
+      throw new Error(`Not a ${algorithm} key`);
+    }
+    bytes = key.bytes;
+  }
+
+  if (algorithm === 'Secp256k1') {
+    ethers.SigningKey.computePublicKey(bytes); // Throws if not on the curve
+  } else if (bytes.length !== 32) {
+    throw new Error(`Invalid ${algorithm} key length`);
+  }
+  return bytes;
+}
+
+function toJwk({ algorithm, bytes }: PublicKey): PublicKeyJwk {
+  if (algorithm !== 'Secp256k1') {
+    return {
+      ...KEY_ALGORITHMS[algorithm].jwk,
+      x: Buffer.from(bytes).toString('base64url'),
+    };
+  }
+
+  const point = ethers.getBytes(
+    ethers.SigningKey.computePublicKey(bytes, false),
+  );
+  return {
+    ...KEY_ALGORITHMS.Secp256k1.jwk,
+    x: Buffer.from(point.subarray(1, 33)).toString('base64url'),
+    y: Buffer.from(point.subarray(33)).toString('base64url'),
+  };
+}
+
+function fromJwk(jwk: PublicKeyJwk): PublicKey {
+  const algorithm = (Object.keys(KEY_ALGORITHMS) as KeyAlgorithm[]).find(
+    (name) =>
+      KEY_ALGORITHMS[name].jwk.kty === jwk.kty &&
+      KEY_ALGORITHMS[name].jwk.crv === jwk.crv,
+  );
+  if (!algorithm || !jwk.x) {
+    throw new Error('Unsupported JWK');
+  }
+
+  const x = Buffer.from(jwk.x, 'base64url');
+  if (algorithm !== 'Secp256k1') {
+    return { algorithm, bytes: x };
+  }
+  if (!jwk.y) {
+    throw new Error('Secp256k1 JWK without y');
+  }
+  return {
+    algorithm,
+    bytes: Buffer.concat([
+      Buffer.from([0x04]),
+      x,
+      Buffer.from(jwk.y, 'base64url'),
+    ]),
+  };
+}
+
+function toMultibase({ algorithm, bytes }: PublicKey): string {
+  // Multicodec secp256k1-pub is the compressed point
+  const key =
+    algorithm === 'Secp256k1'
+      ? ethers.getBytes(ethers.SigningKey.computePublicKey(bytes, true))
+      : bytes;
+  return `z${ethers.encodeBase58(
+    Buffer.concat([Buffer.from(KEY_ALGORITHMS[algorithm].multicodec), key]),
+  )}`;
+}
+
+function fromMultibase(multibase: string): PublicKey {
+  if (!multibase.startsWith('z')) {
+    throw new Error('Only base58btc multibase keys are supported');
+  }
+  const bytes = decodeBase58(multibase.slice(1));
+  const algorithm = (Object.keys(KEY_ALGORITHMS) as KeyAlgorithm[]).find(
+    (name) => {
+      const [first, second] = KEY_ALGORITHMS[name].multicodec;
+      return bytes[0] === first && bytes[1] === second;
+    },
+  );
+  if (!algorithm) {
+    throw new Error('Unsupported multicodec key type');
+  }
+  return { algorithm, bytes: bytes.subarray(2) };
+}
+
+// ethers decodes to a bigint, which drops the leading zero bytes that
+// base58 writes as leading '1's
+function decodeBase58(value: string): Uint8Array {
+  const zeros = /^1*/.exec(value)![0].length;
+  const rest = value.slice(zeros);
+  return Buffer.concat([
+    Buffer.alloc(zeros),
+    rest ? ethers.toBeArray(ethers.decodeBase58(rest)) : Buffer.alloc(0),
+  ]);
+}
@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+
+// Generic DID syntax: did:<method>:<method-specific-id>
+const DID_REGEX = /^did:([a-z0-9]+):([A-Za-z0-9._:%-]+)$/;
+
+// did:ethr method-specific id: [<network name or hex chain id>:]<address>
+// or [<network>:]<compressed secp256k1 public key>
+const ETHR_IDENTIFIER_REGEX =
+  /^(?:([A-Za-z0-9_-]+):)?(0x[0-9a-fA-F]{40}|0x0[23][0-9a-fA-F]{64})$/;
+
+export interface ParsedDid {
+  did: string;
+  method: string;
+  identifier: string;
+  network?: string; // Network name or hex chain id (did:ethr only)
+  address?: string; // Lowercased identity address (did:ethr only)
+  publicKey?: string; // Compressed public key, if the DID is key-based
+}
+
+/**
+ * Parse a DID string. Returns null if it does not follow the DID syntax
+ * or, for did:ethr, if the identifier is not a valid
+ * (optionally network-qualified) address or compressed public key.
+ * For public-key DIDs the address is derived from the key.
+ */
+export function parseDid(did: string): ParsedDid | null {
+  const match = DID_REGEX.exec(did);
+  if (!match) return null;
+
+  const [, method, identifier] = match;
+  if (method !== 'ethr') {
+    return { did, method, identifier };
+  }
+
+  const ethrMatch = ETHR_IDENTIFIER_REGEX.exec(identifier);
+  if (!ethrMatch) return null;
+
+  const [, network, key] = ethrMatch;
+  const identity = key.toLowerCase();
+  const publicKey = identity.length === 68 ? identity : undefined;
+
+  let address = identity;
+  if (publicKey) {
+    try {
+      address = ethers.computeAddress(publicKey).toLowerCase();
+    } catch {
+      return null; // Not a point on the curve
+    }
+  }
+
+  return {
+    did: `did:ethr:${network ? `${network}:` : ''}${identity}`,
+    method,
+    identifier,
+    network,
+    address,
+    publicKey,
+  };
+}
+
+export interface ParsedDidUrl {
+  did: string;
+  path?: string;
+  query: Record<string, string>;
+  fragment?: string;
+}
+
+/**
+ * Split a DID URL (did:ethr:0x..[/path][?query][#fragment]) into its parts
+ */
+export function parseDidUrl(didUrl: string): ParsedDidUrl | null {
+  const match =
+    /^(did:[a-z0-9]+:[A-Za-z0-9._:%-]+)(\/[^?#]*)?(\?[^#]*)?(#.*)?$/.exec(
+      didUrl,
+    );
+  if (!match) return null;
+
+  const [, did, path, query, fragment] = match;
+  return {
+    did,
+    path: path || undefined,
+    query: query ? Object.fromEntries(new URLSearchParams(query.slice(1))) : {},
+    fragment: fragment ? fragment.slice(1) : undefined,
+  };
+}
+
+/**
+ * True if the string carries a path, query or fragment on top of a DID
+ */
+export function isDidUrl(value: string): boolean {
+  return /^did:[^/?#]+[/?#]/.test(value);
+}
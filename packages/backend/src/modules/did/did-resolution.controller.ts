@@ -0,0 +1,72 @@
+import { Controller, Get, Headers, Param, Query, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  DidResolutionService,
+  DidResolutionResult,
+  DidDereferencingResult,
+  DID_RESOLUTION_CONTENT_TYPE,
+} from './did-resolution.service';
+import { isDidUrl } from './did-parser';
+
+// HTTP status for each DID Resolution error (DIF Universal Resolver binding)
+const ERROR_STATUS: Record<string, number> = {
+  invalidDid: 400,
+  invalidDidUrl: 400,
+  notFound: 404,
+  representationNotSupported: 406,
+  methodNotSupported: 501,
+  unknownNetwork: 404,
+  internalError: 500,
+};
+
+@Controller('1.0/identifiers')
+export class DidResolutionController {
+  constructor(private readonly didResolutionService: DidResolutionService) {}
+
+  /**
+   * Resolve a DID or dereference a DID URL (W3C DID Resolution,
+   * Universal Resolver compatible). DID URLs must be percent-encoded,
+   * e.g. did%3Aethr%3A0x...%23delegate-12-0
+   * GET /1.0/identifiers/:did?versionId=<block>&versionTime=<ISO 8601>
+   */
+  @Get(':did')
+  async resolve(
+    @Param('did') did: string,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Query('versionId') versionId?: string,
+    @Query('versionTime') versionTime?: string,
+  ): Promise<DidResolutionResult | DidDereferencingResult> {
+    if (isDidUrl(did)) {
+      const result = await this.didResolutionService.dereference(did, {
+        accept,
+        versionId,
+        versionTime,
+      });
+
+      const { error } = result.dereferencingMetadata;
+      if (error) {
+        res.status(ERROR_STATUS[error] ?? 500);
+      }
+
+      res.type(DID_RESOLUTION_CONTENT_TYPE);
+      return result;
+    }
+
+    const result = await this.didResolutionService.resolve(did, {
+      accept,
+      versionId,
+      versionTime,
+    });
+
+    const { error } = result.didResolutionMetadata;
+    if (error) {
+      res.status(ERROR_STATUS[error] ?? 500);
+    } else if (result.didDocumentMetadata.deactivated) {
+      res.status(410);
+    }
+
+    res.type(DID_RESOLUTION_CONTENT_TYPE);
+    return result;
+  }
+}
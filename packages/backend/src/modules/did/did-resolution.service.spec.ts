@@ -0,0 +1,51 @@
+import {
+  DidResolutionService,
+  DID_CBOR,
+  DID_JSON,
+  DID_LD_JSON,
+} from './did-resolution.service';
+import { DidService } from './did.service';
+import { NetworkService } from '../network/network.service';
+
+describe('DidResolutionService', () => {
+  const service = new DidResolutionService(
+    {} as DidService,
+    {} as NetworkService,
+  );
+
+  describe('selectContentType', () => {
+    it('should default to JSON-LD', () => {
+      expect(service.selectContentType()).toBe(DID_LD_JSON);
+      expect(service.selectContentType('*/*')).toBe(DID_LD_JSON);
+    });
+
+    it('should take the first supported type among equal q-values', () => {
+      expect(
+        service.selectContentType(`text/html, ${DID_JSON}, ${DID_CBOR}`),
+      ).toBe(DID_JSON);
+    });
+
+    it('should prefer higher q-values over header order', () => {
+      expect(service.selectContentType(`${DID_JSON};q=0.5, ${DID_CBOR}`)).toBe(
+        DID_CBOR,
+      );
+      expect(service.selectContentType(`*/*;q=0.1, ${DID_JSON};q=0.9`)).toBe(
+        DID_JSON,
+      );
+    });
+
+    it('should skip CBOR where it cannot be embedded', () => {
+      expect(
+        service.selectContentType(`${DID_CBOR}, ${DID_JSON};q=0.2`, false),
+      ).toBe(DID_JSON);
+    });
+
+    it('should never pick a type with q=0', () => {
+      expect(service.selectContentType(`${DID_JSON};q=0`)).toBeNull();
+      expect(
+        service.selectContentType(`${DID_CBOR};q=0, */*;q=0.0`),
+      ).toBeNull();
+      expect(service.selectContentType('text/html')).toBeNull();
+    });
+  });
+});
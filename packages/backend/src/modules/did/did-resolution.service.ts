@@ -0,0 +1,422 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { DidService, DidDocument } from './did.service';
+import { parseDid, parseDidUrl } from './did-parser';
+import { Event } from '../../entities/Event';
+import { NetworkService } from '../network/network.service';
+
+// Media types (W3C DID Core 1.0 representations, DID Resolution)
+export const DID_LD_JSON = 'application/did+ld+json';
+export const DID_JSON = 'application/did+json';
+export const DID_CBOR = 'application/did+cbor';
+export const DID_RESOLUTION_CONTENT_TYPE =
+  'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+const DID_RESOLUTION_CONTEXT = 'https://w3id.org/did-resolution/v1';
+
+export type DidResolutionErrorCode =
+  | 'invalidDid'
+  | 'invalidDidUrl'
+  | 'notFound'
+  | 'representationNotSupported'
+  | 'methodNotSupported'
+  | 'unknownNetwork'
+  | 'internalError';
+
+export interface DidResolutionMetadata {
+  contentType?: string;
+  error?: DidResolutionErrorCode;
+  message?: string;
+}
+
+export interface DidDocumentMetadata {
+  created?: string;
+  updated?: string;
+  deactivated?: boolean;
+  versionId?: string;
+  nextUpdate?: string;
+  nextVersionId?: string;
+}
+
+// W3C DID Resolution result
+export interface DidResolutionResult {
+  '@context': string;
+  didDocument: DidDocument | Omit<DidDocument, '@context'> | null;
+  didResolutionMetadata: DidResolutionMetadata;
+  didDocumentMetadata: DidDocumentMetadata;
+}
+
+export interface DereferencingMetadata {
+  contentType?: string;
+  error?: DidResolutionErrorCode;
+  message?: string;
+}
+
+// W3C DID URL Dereferencing result
+export interface DidDereferencingResult {
+  '@context': string;
+  contentStream: unknown;
+  dereferencingMetadata: DereferencingMetadata;
+  contentMetadata: DidDocumentMetadata;
+}
+
+export interface DidResolutionOptions {
+  accept?: string;
+  versionId?: string;
+  versionTime?: string;
+}
+
+@Injectable()
+export class DidResolutionService {
+  private readonly logger = new Logger(DidResolutionService.name);
+
+  constructor(
+    private readonly didService: DidService,
+    private readonly networkService: NetworkService,
+  ) {}
+
+  /**
+   * Resolve a DID following W3C DID Resolution. Never throws: failures
+   * are reported through didResolutionMetadata.error.
+   */
+  async resolve(
+    did: string,
+    options: DidResolutionOptions = {},
+  ): Promise<DidResolutionResult> {
+    // A CBOR document cannot be embedded in the JSON resolution result
+    const contentType = this.selectContentType(options.accept, false);
+    if (!contentType) {
+      return this.errorResult(
+        'representationNotSupported',
+        `Unsupported representation: ${options.accept}`,
+      );
+    }
+
+    const parsed = parseDid(did);
+    if (!parsed) {
+      return this.errorResult('invalidDid', `Invalid DID: ${did}`);
+    }
+    if (parsed.method !== 'ethr') {
+      return this.errorResult(
+        'methodNotSupported',
+        `DID method not supported: ${parsed.method}`,
+      );
+    }
+
+    const ethrDid = this.networkService.parseEthrDid(parsed.did);
+    if (!ethrDid) {
+      return this.errorResult(
+        'unknownNetwork',
+        `No registry configured for network ${parsed.network}`,
+      );
+    }
+
+    try {
+      const targetBlock = await this.getTargetBlock(
+        parsed.did,
+        ethrDid.network.chainId,
+        options,
+      );
+      if (targetBlock === null) {
+        return this.errorResult(
+          'notFound',
+          `Version ${options.versionId} of ${parsed.did} does not exist`,
+        );
+      }
+
+      const isHistorical = !!options.versionId || !!options.versionTime;
+      const history = await this.didService.getIdentityHistory(
+        parsed.did,
+        targetBlock,
+      );
+      const didDocumentMetadata = await this.buildDocumentMetadata(
+        parsed.did,
+        history,
+        isHistorical ? targetBlock : null,
+      );
+
+      let didDocument: DidDocument;
+      if (didDocumentMetadata.deactivated) {
+        didDocument = {
+          '@context': ['https://www.w3.org/ns/did/v1'],
+          id: parsed.did,
+          verificationMethod: [],
+          authentication: [],
+          assertionMethod: [],
+          capabilityInvocation: [],
+          capabilityDelegation: [],
+        };
+      } else if (isHistorical) {
+        didDocument = await this.didService.resolveAtBlock(
+          parsed.did,
+          targetBlock,
+        );
+      } else {
+        didDocument = await this.didService.resolve(parsed.did);
+      }
+
+      return {
+        '@context': DID_RESOLUTION_CONTEXT,
+        didDocument: this.toRepresentation(didDocument, contentType),
+        didResolutionMetadata: { contentType },
+        didDocumentMetadata,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to resolve ${did}:`, error);
+      return this.errorResult('internalError', 'Failed to resolve DID');
+    }
+  }
+
+  /**
+   * Dereference a DID URL to a whole DID document, a single verification
+   * method or service (#fragment), or a service endpoint URL
+   * (?service=<id or type>[&relativeRef=<ref>]). versionId and versionTime
+   * query parameters select a historical version of the document.
+   */
+  async dereference(
+    didUrl: string,
+    options: DidResolutionOptions = {},
+  ): Promise<DidDereferencingResult> {
+    const parsedUrl = parseDidUrl(didUrl);
+    if (!parsedUrl) {
+      return this.dereferencingError(
+        'invalidDidUrl',
+        `Invalid DID URL: ${didUrl}`,
+      );
+    }
+
+    const { query, fragment } = parsedUrl;
+    const resolution = await this.resolve(parsedUrl.did, {
+      accept: options.accept,
+      versionId: query.versionId ?? options.versionId,
+      versionTime: query.versionTime ?? options.versionTime,
+    });
+
+    const { error, message, contentType } = resolution.didResolutionMetadata;
+    if (error || !resolution.didDocument) {
+      return this.dereferencingError(error ?? 'notFound', message ?? '');
+    }
+
+    const didDocument = resolution.didDocument;
+    const contentMetadata = resolution.didDocumentMetadata;
+
+    // Service selection by id fragment or type
+    if (query.service) {
+      const service = didDocument.service?.find(
+        (s) =>
+          s.id === `${didDocument.id}#${query.service}` ||
+          s.type.toLowerCase() === query.service.toLowerCase(),
+      );
+      if (!service || typeof service.serviceEndpoint !== 'string') {
+        return this.dereferencingError(
+          'notFound',
+          `Service ${query.service} not found in ${didDocument.id}`,
+        );
+      }
+
+      let endpoint = service.serviceEndpoint;
+      if (query.relativeRef) {
+        try {
+          endpoint = new URL(query.relativeRef, endpoint).toString();
+        } catch {
+          return this.dereferencingError(
+            'invalidDidUrl',
+            `Cannot resolve ${query.relativeRef} against the endpoint of ${service.id}`,
+          );
+        }
+      }
+
+      return {
+        '@context': DID_RESOLUTION_CONTEXT,
+        contentStream: endpoint,
+        dereferencingMetadata: { contentType: 'text/uri-list' },
+        contentMetadata,
+      };
+    }
+
+    // Fragment selects a verification method or service in the document
+    if (fragment) {
+      const id = `${didDocument.id}#${fragment}`;
+      const resource =
+        didDocument.verificationMethod.find((vm) => vm.id === id) ??
+        didDocument.service?.find((svc) => svc.id === id);
+
+      if (!resource) {
+        return this.dereferencingError(
+          'notFound',
+          `${id} not found in DID document`,
+        );
+      }
+
+      return {
+        '@context': DID_RESOLUTION_CONTEXT,
+        contentStream: resource,
+        dereferencingMetadata: { contentType },
+        contentMetadata,
+      };
+    }
+
+    return {
+      '@context': DID_RESOLUTION_CONTEXT,
+      contentStream: didDocument,
+      dereferencingMetadata: { contentType },
+      contentMetadata,
+    };
+  }
+
+  /**
+   * Pick the DID document representation for an Accept header, trying
+   * media types by descending q-value (header order among equal ones).
+   * Returns null if none of the acceptable media types is supported.
+   */
+  selectContentType(accept?: string, allowCbor = true): string | null {
+    if (!accept) return DID_LD_JSON;
+
+    const mediaTypes = accept
+      .split(',')
+      .map((range) => {
+        const [type, ...params] = range.split(';');
+        const q = params
+          .map((param) => param.trim().toLowerCase())
+          .find((param) => param.startsWith('q='));
+        const quality = q ? Number(q.slice(2)) : 1;
+        return {
+          type: type.trim().toLowerCase(),
+          quality: Number.isNaN(quality) ? 1 : quality,
+        };
+      })
+      .filter(({ quality }) => quality > 0)
+      .sort((a, b) => b.quality - a.quality)
+      .map(({ type }) => type);
+
+    for (const mediaType of mediaTypes) {
+      if (mediaType === DID_JSON) return DID_JSON;
+      if (mediaType === DID_CBOR && allowCbor) return DID_CBOR;
+      if (
+        mediaType === DID_LD_JSON ||
+        mediaType === 'application/ld+json' ||
+        mediaType === 'application/json' ||
+        mediaType === 'application/*' ||
+        mediaType === '*/*'
+      ) {
+        return DID_LD_JSON;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The document as the representation's data model; CBOR is encoded
+   * from the plain JSON one
+   */
+  toRepresentation(
+    didDocument: DidDocument,
+    contentType: string,
+  ): DidDocument | Omit<DidDocument, '@context'> {
+    if (contentType === DID_JSON || contentType === DID_CBOR) {
+      // Plain JSON and CBOR representations carry no JSON-LD context
+      const plainDocument: Partial<DidDocument> = { ...didDocument };
+      delete plainDocument['@context'];
+      return plainDocument as Omit<DidDocument, '@context'>;
+    }
+    return didDocument;
+  }
+
+  /**
+   * Map versionId (a block number in which the identity changed) or
+   * versionTime onto the block to resolve at. Returns null if the
+   * requested version does not exist.
+   */
+  private async getTargetBlock(
+    did: string,
+    chainId: number,
+    options: DidResolutionOptions,
+  ): Promise<number | null> {
+    if (options.versionId) {
+      const blockNumber = Number(options.versionId);
+      if (!Number.isInteger(blockNumber) || blockNumber < 0) return null;
+
+      const history = await this.didService.getIdentityHistory(
+        did,
+        blockNumber,
+      );
+      const isVersion = history.some((e) => e.blockNumber === blockNumber);
+      return isVersion ? blockNumber : null;
+    }
+
+    if (options.versionTime) {
+      const date = new Date(options.versionTime);
+      if (isNaN(date.getTime())) return null;
+      return this.didService.getBlockByTimestamp(date, chainId);
+    }
+
+    return this.didService.getLatestBlockNumber(chainId);
+  }
+
+  private async buildDocumentMetadata(
+    did: string,
+    history: Event[],
+    targetBlock: number | null,
+  ): Promise<DidDocumentMetadata> {
+    const metadata: DidDocumentMetadata = {};
+
+    if (history.length > 0) {
+      const first = history[0];
+      const last = history[history.length - 1];
+
+      metadata.created = this.toIsoString(first.blockTimestamp);
+      metadata.updated = this.toIsoString(last.blockTimestamp);
+      metadata.versionId = String(last.blockNumber);
+
+      // An identity whose owner was set to the zero address is deactivated
+      const lastOwnerChange = [...history]
+        .reverse()
+        .find((e) => e.eventName === 'DIDOwnerChanged');
+      const owner = (lastOwnerChange?.args as { owner?: string } | undefined)
+        ?.owner;
+      if (owner === ethers.ZeroAddress) {
+        metadata.deactivated = true;
+      }
+    }
+
+    if (targetBlock !== null) {
+      const nextChange = await this.didService.getNextChange(did, targetBlock);
+      if (nextChange) {
+        metadata.nextVersionId = String(nextChange.blockNumber);
+        metadata.nextUpdate = this.toIsoString(nextChange.blockTimestamp);
+      }
+    }
+
+    return metadata;
+  }
+
+  private toIsoString(timestamp: number | null): string | undefined {
+    if (!timestamp) return undefined;
+    return new Date(timestamp * 1000).toISOString().replace('.000Z', 'Z');
+  }
+
+  private dereferencingError(
+    error: DidResolutionErrorCode,
+    message: string,
+  ): DidDereferencingResult {
+    return {
+      '@context': DID_RESOLUTION_CONTEXT,
+      contentStream: null,
+      dereferencingMetadata: { error, message },
+      contentMetadata: {},
+    };
+  }
+
+  private errorResult(
+    error: DidResolutionErrorCode,
+    message: string,
+  ): DidResolutionResult {
+    return {
+      '@context': DID_RESOLUTION_CONTEXT,
+      didDocument: null,
+      didResolutionMetadata: { error, message },
+      didDocumentMetadata: {},
+    };
+  }
+}
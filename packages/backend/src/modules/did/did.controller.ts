@@ -1,12 +1,30 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Headers,
+  NotAcceptableException,
+  Param,
+  Query,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Response } from 'express';
 import { DidService, DidDocument } from './did.service';
+import { DID_CBOR, DidResolutionService } from './did-resolution.service';
+import { encodeCbor } from '../../common/cbor';
 
 @Controller('api/did')
 export class DidController {
-  constructor(private readonly didService: DidService) {}
+  constructor(
+    private readonly didService: DidService,
+    private readonly didResolutionService: DidResolutionService,
+  ) {}
 
   /**
-   * Resolve a DID to its DID Document
+   * Resolve a DID to its DID Document, as JSON-LD (default,
+   * application/did+ld+json), plain JSON (application/did+json) or
+   * CBOR (application/did+cbor) depending on the Accept header
    * @param did - The DID to resolve (e.g., did:ethr:0x1234...)
    * @param timestamp - Optional ISO timestamp to resolve at a specific point in time
    * @param block - Optional block number to resolve at a specific block
@@ -14,29 +32,29 @@ export class DidController {
   @Get(':did')
   async getDidDocument(
     @Param('did') did: string,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
     @Query('timestamp') timestamp?: string,
     @Query('block') block?: string,
-  ): Promise<DidDocument> {
-    // Time-based resolution
-    if (timestamp) {
-      const date = new Date(timestamp);
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid timestamp format. Use ISO 8601 format.');
-      }
-      return this.didService.resolveAtTime(did, date);
+  ): Promise<DidDocument | Omit<DidDocument, '@context'> | StreamableFile> {
+    const contentType = this.didResolutionService.selectContentType(accept);
+    if (!contentType) {
+      throw new NotAcceptableException({
+        error: 'representationNotSupported',
+        message: `Unsupported representation: ${accept}`,
+      });
     }
 
-    // Block-based resolution
-    if (block) {
-      const blockNumber = parseInt(block, 10);
-      if (isNaN(blockNumber)) {
-        throw new Error('Invalid block number.');
-      }
-      return this.didService.resolveAtBlock(did, blockNumber);
-    }
+    const didDocument = this.didResolutionService.toRepresentation(
+      await this.resolveDocument(did, timestamp, block),
+      contentType,
+    );
 
-    // Current state resolution
-    return this.didService.resolve(did);
+    if (contentType === DID_CBOR) {
+      return new StreamableFile(encodeCbor(didDocument), { type: DID_CBOR });
+    }
+    res.type(contentType);
+    return didDocument;
   }
 
   /**
@@ -50,11 +68,13 @@ export class DidController {
     if (timestamp) {
       const date = new Date(timestamp);
       if (isNaN(date.getTime())) {
-        throw new Error('Invalid timestamp format. Use ISO 8601 format.');
+        throw new BadRequestException(
+          'Invalid timestamp format. Use ISO 8601 format.',
+        );
       }
       const owner = await this.didService.getOwnerAtTime(did, date);
       return {
-        did: `did:ethr:${this.extractAddress(did)}`,
+        did: this.didService.toCanonicalDid(did),
         owner,
         queryTimestamp: timestamp,
       };
@@ -82,15 +102,17 @@ export class DidController {
     @Query('timestamp') timestamp: string,
   ) {
     if (!signer) {
-      throw new Error('Signer address is required.');
+      throw new BadRequestException('Signer address is required.');
     }
     if (!timestamp) {
-      throw new Error('Timestamp is required.');
+      throw new BadRequestException('Timestamp is required.');
     }
 
     const date = new Date(timestamp);
     if (isNaN(date.getTime())) {
-      throw new Error('Invalid timestamp format. Use ISO 8601 format.');
+      throw new BadRequestException(
+        'Invalid timestamp format. Use ISO 8601 format.',
+      );
     }
 
     const wasValid = await this.didService.wasValidSignerAtTime(
@@ -109,8 +131,32 @@ export class DidController {
     };
   }
 
-  private extractAddress(did: string): string {
-    const parts = did.split(':');
-    return parts.length > 1 ? parts[parts.length - 1] : did;
+  private async resolveDocument(
+    did: string,
+    timestamp?: string,
+    block?: string,
+  ): Promise<DidDocument> {
+    // Time-based resolution
+    if (timestamp) {
+      const date = new Date(timestamp);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestException(
+          'Invalid timestamp format. Use ISO 8601 format.',
+        );
+      }
+      return this.didService.resolveAtTime(did, date);
+    }
+
+    // Block-based resolution
+    if (block) {
+      const blockNumber = parseInt(block, 10);
+      if (isNaN(blockNumber)) {
+        throw new BadRequestException('Invalid block number.');
+      }
+      return this.didService.resolveAtBlock(did, blockNumber);
+    }
+
+    // Current state resolution
+    return this.didService.resolve(did);
   }
 }
@@ -3,18 +3,29 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
 import { DidController } from './did.controller';
 import { DidService } from './did.service';
+import { DidResolutionController } from './did-resolution.controller';
+import { DidResolutionService } from './did-resolution.service';
 import { Identity } from '../../entities/Identity';
 import { Delegate } from '../../entities/Delegate';
 import { Attribute } from '../../entities/Attribute';
 import { Event } from '../../entities/Event';
+import { SyncCheckpoint } from '../../entities/SyncCheckpoint';
+import { NetworkModule } from '../network/network.module';
 
 @Module({
   imports: [
     ConfigModule,
-    TypeOrmModule.forFeature([Identity, Delegate, Attribute, Event]),
+    TypeOrmModule.forFeature([
+      Identity,
+      Delegate,
+      Attribute,
+      Event,
+      SyncCheckpoint,
+    ]),
+    NetworkModule,
   ],
-  controllers: [DidController],
-  providers: [DidService],
-  exports: [DidService],
+  controllers: [DidController, DidResolutionController],
+  providers: [DidService, DidResolutionService],
+  exports: [DidService, DidResolutionService],
 })
 export class DidModule {}
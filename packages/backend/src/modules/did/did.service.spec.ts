@@ -0,0 +1,171 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { DidService } from './did.service';
+import { NetworkService } from '../network/network.service';
+import { Identity } from '../../entities/Identity';
+import { Delegate } from '../../entities/Delegate';
+import { Attribute } from '../../entities/Attribute';
+import { Event } from '../../entities/Event';
+import { SyncCheckpoint } from '../../entities/SyncCheckpoint';
+
+const identityKey = ethers.Wallet.createRandom();
+const newOwnerKey = ethers.Wallet.createRandom();
+const delegateKey = ethers.Wallet.createRandom();
+const DID = `did:ethr:${identityKey.address.toLowerCase()}`;
+
+describe('DidService', () => {
+  let didService: DidService;
+  let identity: Partial<Identity> | null;
+  let attributeExists: boolean;
+  let checkpoint: Partial<SyncCheckpoint> | null;
+
+  beforeEach(async () => {
+    identity = null;
+    attributeExists = false;
+    checkpoint = null;
+
+    const module = await Test.createTestingModule({
+      providers: [
+        DidService,
+        NetworkService,
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        {
+          provide: getRepositoryToken(Identity),
+          useValue: { findOne: () => Promise.resolve(identity) },
+        },
+        { provide: getRepositoryToken(Delegate), useValue: {} },
+        {
+          provide: getRepositoryToken(Attribute),
+          useValue: { exists: () => Promise.resolve(attributeExists) },
+        },
+        { provide: getRepositoryToken(Event), useValue: {} },
+        {
+          provide: getRepositoryToken(SyncCheckpoint),
+          useValue: { findOne: () => Promise.resolve(checkpoint) },
+        },
+      ],
+    }).compile();
+
+    didService = module.get(DidService);
+  });
+
+  describe('canAuthenticate', () => {
+    it('should accept the identity address while it owns itself', async () => {
+      await expect(
+        didService.canAuthenticate(DID, identityKey.address),
+      ).resolves.toBe(true);
+    });
+
+    it('should follow ownership changes and refuse the old key', async () => {
+      identity = {
+        controller: newOwnerKey.address.toLowerCase(),
+        delegates: [],
+        attributes: [],
+      };
+
+      await expect(
+        didService.canAuthenticate(DID, newOwnerKey.address),
+      ).resolves.toBe(true);
+      await expect(
+        didService.canAuthenticate(DID, identityKey.address),
+      ).resolves.toBe(false);
+    });
+
+    it('should accept valid sigAuth delegates only', async () => {
+      const delegate = {
+        delegateType: 'sigAuth',
+        delegateAddress: delegateKey.address.toLowerCase(),
+        validTo: Math.floor(Date.now() / 1000) + 3600,
+        revoked: false,
+        blockNumber: 10,
+        logIndex: 0,
+      } as Delegate;
+      identity = { controller: null, delegates: [delegate], attributes: [] };
+
+      await expect(
+        didService.canAuthenticate(DID, delegateKey.address),
+      ).resolves.toBe(true);
+
+      delegate.delegateType = 'veriKey';
+      await expect(
+        didService.canAuthenticate(DID, delegateKey.address),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('resolve', () => {
+    const validTo = () => Math.floor(Date.now() / 1000) + 3600;
+    const veriKey = (blockNumber: number | null, logIndex: number | null) =>
+      ({
+        delegateType: 'veriKey',
+        delegateAddress: ethers.Wallet.createRandom().address.toLowerCase(),
+        validTo: validTo(),
+        revoked: false,
+        blockNumber,
+        logIndex,
+      }) as Delegate;
+
+    it('should name methods after the registry log that added them', async () => {
+      const first = veriKey(12, 0);
+      const second = veriKey(15, 3);
+      const key = {
+        name: 'did/pub/Secp256k1/veriKey/hex',
+        value: delegateKey.signingKey.compressedPublicKey,
+        validTo: validTo(),
+        revoked: false,
+        blockNumber: 15,
+        logIndex: 1,
+      } as Attribute;
+      identity = {
+        controller: null,
+        delegates: [second, veriKey(null, null), first],
+        attributes: [key],
+      };
+
+      const document = await didService.resolve(DID);
+      expect(document.assertionMethod).toEqual([
+        `${DID}#controller`,
+        `${DID}#delegate-12-0`,
+        `${DID}#delegate-15-3`,
+        `${DID}#key-15-1`,
+      ]);
+
+      // Ids do not shift when an earlier method goes away
+      first.revoked = true;
+      const later = await didService.resolve(DID);
+      expect(later.assertionMethod).toEqual([
+        `${DID}#controller`,
+        `${DID}#delegate-15-3`,
+        `${DID}#key-15-1`,
+      ]);
+      expect(
+        later.verificationMethod.find((vm) => vm.id === `${DID}#delegate-15-3`)
+          ?.blockchainAccountId,
+      ).toMatch(new RegExp(`:${second.delegateAddress}$`));
+    });
+  });
+
+  describe('hasIndexedAttribute', () => {
+    const hasRevocation = () =>
+      didService.hasIndexedAttribute(DID, 'did/revoked', ethers.ZeroHash);
+
+    beforeEach(() => {
+      jest.spyOn(didService, 'getLatestBlockNumber').mockResolvedValue(100);
+    });
+
+    it('should find attributes in the index', async () => {
+      attributeExists = true;
+      await expect(hasRevocation()).resolves.toBe(true);
+    });
+
+    it('should trust a missing attribute only once the index is current', async () => {
+      checkpoint = { lastProcessedBlock: 100 };
+      await expect(hasRevocation()).resolves.toBe(false);
+
+      checkpoint = { lastProcessedBlock: 90 };
+      await expect(hasRevocation()).resolves.toBeNull();
+    });
+  });
+});
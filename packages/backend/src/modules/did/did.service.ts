@@ -1,12 +1,25 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Repository, LessThanOrEqual } from 'typeorm';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual, MoreThan } from 'typeorm';
 import { ethers } from 'ethers';
 import { Identity } from '../../entities/Identity';
 import { Delegate } from '../../entities/Delegate';
 import { Attribute } from '../../entities/Attribute';
 import { Event } from '../../entities/Event';
+import { SyncCheckpoint } from '../../entities/SyncCheckpoint';
+import {
+  EthrDid,
+  NetworkConfig,
+  NetworkService,
+} from '../network/network.service';
+import { x25519KeyPair } from '../didcomm/didcomm-crypto';
+import {
+  getKeyContexts,
+  getPublicKey,
+  PublicKeyJwk,
+  toKeyVerificationMethod,
+} from './did-keys';
 
 // Event args interfaces
 interface OwnerChangedArgs {
@@ -31,6 +44,14 @@ interface AttributeChangedArgs {
   previousChange: string;
 }
 
+// EthereumDIDRegistry ABI (history lookups only)
+const DID_REGISTRY_ABI = [
+  'function changed(address identity) view returns (uint256)',
+  'event DIDOwnerChanged(address indexed identity, address owner, uint256 previousChange)',
+  'event DIDDelegateChanged(address indexed identity, bytes32 delegateType, address delegate, uint256 validTo, uint256 previousChange)',
+  'event DIDAttributeChanged(address indexed identity, bytes32 name, bytes value, uint256 validTo, uint256 previousChange)',
+];
+
 // W3C DID Core 1.0 compliant contexts
 const DID_CONTEXTS = [
   'https://www.w3.org/ns/did/v1',
@@ -47,31 +68,63 @@ export interface DidDocument {
   authentication: (string | VerificationMethod)[];
   assertionMethod: (string | VerificationMethod)[];
   keyAgreement?: (string | VerificationMethod)[];
-  capabilityInvocation?: (string | VerificationMethod)[];
-  capabilityDelegation?: (string | VerificationMethod)[];
+  capabilityInvocation: (string | VerificationMethod)[];
+  capabilityDelegation: (string | VerificationMethod)[];
   service?: ServiceEndpoint[];
 }
 
-interface VerificationMethod {
+export interface VerificationMethod {
   id: string;
   type: string;
   controller: string;
   blockchainAccountId?: string;
+  publicKeyBase58?: string;
   publicKeyBase64?: string;
   publicKeyHex?: string;
-  publicKeyJwk?: object;
+  publicKeyJwk?: PublicKeyJwk;
+  publicKeyMultibase?: string;
 }
 
-interface ServiceEndpoint {
+export interface ServiceEndpoint {
   id: string;
   type: string;
   serviceEndpoint: string | string[] | object;
 }
 
+interface RegistryLog {
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Ids of delegates, keys and services come from the log that first added
+ * them, so they stay the same while other entries come and go
+ */
+function toMethodSuffix({ blockNumber, logIndex }: RegistryLog): string {
+  return `${blockNumber}-${logIndex}`;
+}
+
+function byRegistryLog(a: RegistryLog, b: RegistryLog): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+// Rows indexed before log positions were recorded have no id until the
+// indexer backfills them at startup
+function hasRegistryLog<
+  T extends { blockNumber: number | null; logIndex: number | null },
+>(entry: T): entry is T & RegistryLog {
+  return entry.blockNumber !== null && entry.logIndex !== null;
+}
+
 @Injectable()
 export class DidService {
   private readonly logger = new Logger(DidService.name);
-  private provider: ethers.JsonRpcProvider;
+  // Registry contracts per chain id, created on first use
+  private readonly registries = new Map<number, ethers.Contract>();
+  // DIDComm mediator advertised for DIDs with key agreement keys
+  private readonly didCommEndpoint: string;
+  private readonly didCommRoutingKey?: string;
+  private readonly confirmations: number;
 
   constructor(
     @InjectRepository(Identity)
@@ -82,40 +135,122 @@ export class DidService {
     private attributeRepository: Repository<Attribute>,
     @InjectRepository(Event)
     private eventRepository: Repository<Event>,
+    @InjectRepository(SyncCheckpoint)
+    private checkpointRepository: Repository<SyncCheckpoint>,
+    private networkService: NetworkService,
     private configService: ConfigService,
   ) {
-    const rpcUrl = this.configService.get<string>(
-      'RPC_URL',
-      'http://127.0.0.1:8545',
+    this.confirmations = Number(
+      this.configService.get<number>('CONFIRMATIONS', 0),
     );
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.didCommEndpoint = `${this.configService.get<string>(
+      'API_BASE_URL',
+      'http://localhost:3001',
+    )}/api/didcomm`;
+
+    const mediatorKey = this.configService.get<string>('DIDCOMM_MEDIATOR_KEY');
+    if (mediatorKey) {
+      this.didCommRoutingKey = x25519KeyPair(mediatorKey).kid;
+    }
   }
 
-  private extractAddress(did: string): string {
-    // Handle both "did:ethr:0x..." and plain address "0x..."
-    const parts = did.split(':');
-    const address = parts.length > 1 ? parts[parts.length - 1] : did;
-    return address.toLowerCase();
+  /**
+   * Parse "did:ethr:[network:]0x..." or a plain address (default network)
+   */
+  private parseDid(did: string): EthrDid {
+    const ethrDid = this.networkService.parseEthrDid(did);
+    if (!ethrDid) {
+      throw new BadRequestException(`Invalid DID or unknown network: ${did}`);
+    }
+    return ethrDid;
+  }
+
+  /**
+   * Normalize a DID or plain address to "did:ethr:[network:]0x..."
+   */
+  toCanonicalDid(did: string): string {
+    return this.parseDid(did).did;
+  }
+
+  /**
+   * Address behind a DID; derived from the key for public-key DIDs
+   */
+  getAddress(did: string): string {
+    return this.parseDid(did).address;
+  }
+
+  /**
+   * Ethereum address controlled by a verification method, if any
+   */
+  getMethodAddress(vm: VerificationMethod): string | undefined {
+    if (vm.blockchainAccountId) {
+      return vm.blockchainAccountId.split(':').pop()?.toLowerCase();
+    }
+    const publicKey = getPublicKey(vm);
+    if (publicKey?.algorithm === 'Secp256k1') {
+      return ethers
+        .computeAddress(ethers.hexlify(publicKey.bytes))
+        .toLowerCase();
+    }
+    return undefined;
+  }
+
+  /**
+   * True if the address is one of the DID's current authentication
+   * methods: its owner or a valid sigAuth delegate
+   */
+  async canAuthenticate(did: string, address: string): Promise<boolean> {
+    const didDocument = await this.resolve(did);
+    const authenticationIds = didDocument.authentication.map((method) =>
+      typeof method === 'string' ? method : method.id,
+    );
+
+    return didDocument.verificationMethod.some(
+      (vm) =>
+        authenticationIds.includes(vm.id) &&
+        this.getMethodAddress(vm) === address.toLowerCase(),
+    );
+  }
+
+  private getProvider(chainId?: number): ethers.JsonRpcProvider {
+    return this.networkService.getProvider(
+      chainId ?? this.networkService.getDefaultNetwork().chainId,
+    );
+  }
+
+  private getRegistry(network: NetworkConfig): ethers.Contract {
+    let registry = this.registries.get(network.chainId);
+
+    if (!registry) {
+      registry = new ethers.Contract(
+        network.registry,
+        DID_REGISTRY_ABI,
+        this.getProvider(network.chainId),
+      );
+      this.registries.set(network.chainId, registry);
+    }
+
+    return registry;
   }
 
   /**
    * Resolve a DID to its DID Document (W3C DID Core 1.0 compliant)
    */
   async resolve(did: string): Promise<DidDocument> {
-    const address = this.extractAddress(did);
+    const ethrDid = this.parseDid(did);
 
     const identity = await this.identityRepository.findOne({
-      where: { address },
+      where: { chainId: ethrDid.network.chainId, address: ethrDid.address },
       relations: ['delegates', 'attributes'],
     });
 
     if (!identity) {
       // Return a basic document for addresses not yet in the database
-      return this.buildDidDocument(address, null, [], []);
+      return this.buildDidDocument(ethrDid, null, [], []);
     }
 
     return this.buildDidDocument(
-      address,
+      ethrDid,
       identity.controller,
       identity.delegates || [],
       identity.attributes || [],
@@ -123,24 +258,24 @@ export class DidService {
   }
 
   async getOwner(did: string) {
-    const address = this.extractAddress(did);
+    const { did: canonicalDid, address, network } = this.parseDid(did);
 
     const identity = await this.identityRepository.findOne({
-      where: { address },
+      where: { chainId: network.chainId, address },
     });
 
     return {
-      did: `did:ethr:${address}`,
+      did: canonicalDid,
       owner: identity?.controller || address,
       isSelfOwned: !identity?.controller || identity.controller === address,
     };
   }
 
   async getDelegates(did: string) {
-    const address = this.extractAddress(did);
+    const { did: canonicalDid, address, network } = this.parseDid(did);
 
     const identity = await this.identityRepository.findOne({
-      where: { address },
+      where: { chainId: network.chainId, address },
       relations: ['delegates'],
     });
 
@@ -148,23 +283,24 @@ export class DidService {
     const now = Math.floor(Date.now() / 1000);
 
     return {
-      did: `did:ethr:${address}`,
+      did: canonicalDid,
       delegates: delegates.map((d) => ({
         id: d.id,
         type: d.delegateType,
         address: d.delegateAddress,
         validTo: d.validTo,
-        isValid: d.validTo > now,
+        revoked: d.revoked,
+        isValid: !d.revoked && d.validTo > now,
         createdAt: d.createdAt,
       })),
     };
   }
 
   async getAttributes(did: string) {
-    const address = this.extractAddress(did);
+    const { did: canonicalDid, address, network } = this.parseDid(did);
 
     const identity = await this.identityRepository.findOne({
-      where: { address },
+      where: { chainId: network.chainId, address },
       relations: ['attributes'],
     });
 
@@ -172,13 +308,14 @@ export class DidService {
     const now = Math.floor(Date.now() / 1000);
 
     return {
-      did: `did:ethr:${address}`,
+      did: canonicalDid,
       attributes: attributes.map((a) => ({
         id: a.id,
         name: a.name,
         value: a.value,
         validTo: a.validTo,
-        isValid: a.validTo > now,
+        revoked: a.revoked,
+        isValid: !a.revoked && a.validTo > now,
         createdAt: a.createdAt,
       })),
     };
@@ -188,39 +325,69 @@ export class DidService {
    * Build a W3C DID Core 1.0 compliant DID Document
    */
   private buildDidDocument(
-    address: string,
+    ethrDid: EthrDid,
     controller: string | null,
     delegates: Delegate[],
     attributes: Attribute[],
   ): DidDocument {
-    const did = `did:ethr:${address}`;
+    const { did, address, network, publicKey } = ethrDid;
+    const controllerDid = controller
+      ? this.networkService.toDid(controller, ethrDid)
+      : did;
     const now = Math.floor(Date.now() / 1000);
 
-    // Filter out expired delegates and attributes
-    const validDelegates = delegates.filter((d) => d.validTo > now);
-    const validAttributes = attributes.filter((a) => a.validTo > now);
-
-    // Primary verification method (controller key)
+    // Filter out revoked and expired delegates and attributes, in the
+    // order they were added
+    const validDelegates = delegates
+      .filter((d) => !d.revoked && d.validTo > now)
+      .filter(hasRegistryLog)
+      .sort(byRegistryLog);
+    const validAttributes = attributes
+      .filter((a) => !a.revoked && a.validTo > now)
+      .filter(hasRegistryLog)
+      .sort(byRegistryLog);
+
+    // Primary verification method: the current owner's key, which is the
+    // identity's own address until ownership is changed
     const verificationMethod: VerificationMethod[] = [
       {
         id: `${did}#controller`,
         type: 'EcdsaSecp256k1RecoveryMethod2020',
-        controller: controller ? `did:ethr:${controller}` : did,
-        blockchainAccountId: `eip155:1:${address}`,
+        controller: controllerDid,
+        blockchainAccountId: `eip155:${network.chainId}:${controller ?? address}`,
       },
     ];
 
     const authentication: string[] = [`${did}#controller`];
     const assertionMethod: string[] = [`${did}#controller`];
+    const keyAgreement: string[] = [];
+    // Only the owner can change the DID on chain or appoint delegates
+    const capabilityInvocation: string[] = [`${did}#controller`];
+    const capabilityDelegation: string[] = [`${did}#controller`];
+
+    // A public-key DID also exposes its key, as long as ownership has not
+    // moved away from the address derived from it
+    if (publicKey && (!controller || controller === address)) {
+      verificationMethod.push({
+        id: `${did}#controllerKey`,
+        type: 'EcdsaSecp256k1VerificationKey2019',
+        controller: did,
+        publicKeyHex: publicKey.slice(2),
+      });
+      authentication.push(`${did}#controllerKey`);
+      assertionMethod.push(`${did}#controllerKey`);
+      capabilityInvocation.push(`${did}#controllerKey`);
+      capabilityDelegation.push(`${did}#controllerKey`);
+    }
 
     // Add delegates as verification methods
-    validDelegates.forEach((delegate, index) => {
-      const delegateId = `${did}#delegate-${index}`;
+    validDelegates.forEach((delegate) => {
+      const delegateId = `${did}#delegate-${toMethodSuffix(delegate)}`;
       verificationMethod.push({
         id: delegateId,
         type: 'EcdsaSecp256k1RecoveryMethod2020',
         controller: did,
-        blockchainAccountId: `eip155:1:${delegate.delegateAddress}`,
+        blockchainAccountId: `eip155:${network.chainId}:${delegate.delegateAddress}`,
       });
 
       // sigAuth delegates go to authentication
@@ -236,35 +403,29 @@ export class DidService {
     // Parse service endpoints from attributes
     const service: ServiceEndpoint[] = validAttributes
       .filter((attr) => attr.name.startsWith('did/svc/'))
-      .map((attr, index) => ({
-        id: `${did}#service-${index}`,
+      .map((attr) => ({
+        id: `${did}#service-${toMethodSuffix(attr)}`,
         type: attr.name.replace('did/svc/', ''),
         serviceEndpoint: attr.value,
       }));
 
-    // Add public keys from attributes
+    // Add public keys from attributes:
+    // did/pub/<Secp256k1|Ed25519|X25519>/<veriKey|sigAuth|enc>/<encoding>
     validAttributes
       .filter((attr) => attr.name.startsWith('did/pub/'))
-      .forEach((attr, index) => {
-        const parts = attr.name.split('/');
-        const algorithm = parts[2] || 'Unknown';
-        const keyType = parts[3] || 'veriKey';
-        const encoding = parts[4] || 'base64';
-
-        const keyId = `${did}#key-${index}`;
-
-        const keyMethod: VerificationMethod = {
-          id: keyId,
-          type: `${algorithm}VerificationKey2020`,
-          controller: did,
-        };
-
-        // Set the appropriate key format
-        if (encoding === 'base64') {
-          keyMethod.publicKeyBase64 = attr.value;
-        } else if (encoding === 'hex') {
-          keyMethod.publicKeyHex = attr.value;
-        }
+      .forEach((attr) => {
+        const [, , algorithm, keyType = 'veriKey', encoding = 'base64'] =
+          attr.name.split('/');
+
+        const keyId = `${did}#key-${toMethodSuffix(attr)}`;
+        const keyMethod = toKeyVerificationMethod(
+          keyId,
+          did,
+          algorithm,
+          encoding,
+          attr.value,
+        );
+        if (!keyMethod) return; // Unsupported algorithm or encoding
 
         verificationMethod.push(keyMethod);
 
@@ -276,22 +437,48 @@ export class DidService {
           authentication.push(keyId);
         }
         if (keyType === 'enc') {
-          // Key agreement keys would go here
+          keyAgreement.push(keyId);
         }
       });
 
+    // Messages to DIDs that can decrypt go through this backend's mediator,
+    // unless the DID names its own DIDComm endpoint
+    if (
+      this.didCommRoutingKey &&
+      keyAgreement.length > 0 &&
+      !service.some((s) => s.type === 'DIDCommMessaging')
+    ) {
+      service.push({
+        id: `${did}#didcomm-1`,
+        type: 'DIDCommMessaging',
+        serviceEndpoint: {
+          uri: this.didCommEndpoint,
+          accept: ['didcomm/v2'],
+          routingKeys: [this.didCommRoutingKey],
+        },
+      });
+    }
+
     // Build the DID Document
     const didDocument: DidDocument = {
-      '@context': DID_CONTEXTS,
+      '@context': [
+        ...new Set([...DID_CONTEXTS, ...getKeyContexts(verificationMethod)]),
+      ],
       id: did,
       verificationMethod,
       authentication,
       assertionMethod,
+      capabilityInvocation,
+      capabilityDelegation,
     };
 
+    if (keyAgreement.length > 0) {
+      didDocument.keyAgreement = keyAgreement;
+    }
+
     // Add controller if different from self
     if (controller && controller.toLowerCase() !== address.toLowerCase()) {
-      didDocument.controller = `did:ethr:${controller}`;
+      didDocument.controller = controllerDid;
     }
 
     // Add service if present
@@ -307,11 +494,16 @@ export class DidService {
   // ===================================================================
 
   /**
-   * Get the block number closest to a given timestamp
+   * Get the block number closest to a given timestamp on a chain
+   * (the default network if no chain id is given)
    */
-  async getBlockByTimestamp(timestamp: Date): Promise<number> {
+  async getBlockByTimestamp(
+    timestamp: Date,
+    chainId?: number,
+  ): Promise<number> {
+    const provider = this.getProvider(chainId);
     const targetTime = Math.floor(timestamp.getTime() / 1000);
-    const latestBlock = await this.provider.getBlock('latest');
+    const latestBlock = await provider.getBlock('latest');
 
     if (!latestBlock) {
       throw new Error('Could not fetch latest block');
@@ -323,7 +515,7 @@ export class DidService {
 
     while (low < high) {
       const mid = Math.floor((low + high) / 2);
-      const block = await this.provider.getBlock(mid);
+      const block = await provider.getBlock(mid);
 
       if (!block) {
         high = mid;
@@ -345,37 +537,22 @@ export class DidService {
    * This reconstructs the historical state by traversing event history
    */
   async resolveAtBlock(did: string, blockNumber: number): Promise<DidDocument> {
-    const address = this.extractAddress(did);
+    const ethrDid = this.parseDid(did);
     this.logger.log(
       `Resolving DID ${did} at block ${blockNumber} (historical)`,
     );
 
-    // Get all events for this identity up to the target block
-    const events = await this.eventRepository.find({
-      where: {
-        blockNumber: LessThanOrEqual(blockNumber),
-      },
-      order: { blockNumber: 'ASC', id: 'ASC' },
-    });
-
-    // Filter events for this identity
-    const identityEvents = events.filter((e) => {
-      const args = e.args as
-        | OwnerChangedArgs
-        | DelegateChangedArgs
-        | AttributeChangedArgs;
-      return args.identity?.toLowerCase() === address.toLowerCase();
-    });
+    // Walk this identity's change history up to the target block
+    const identityEvents = await this.getIdentityHistory(did, blockNumber);
 
     // Reconstruct state at that block
     const historicalState = this.reconstructStateFromEvents(
-      address,
       identityEvents,
       blockNumber,
     );
 
     return this.buildDidDocument(
-      address,
+      ethrDid,
       historicalState.owner,
       historicalState.delegates,
       historicalState.attributes,
@@ -386,7 +563,11 @@ export class DidService {
    * Resolve a DID to its DID Document at a specific timestamp
    */
   async resolveAtTime(did: string, timestamp: Date): Promise<DidDocument> {
-    const blockNumber = await this.getBlockByTimestamp(timestamp);
+    const { network } = this.parseDid(did);
+    const blockNumber = await this.getBlockByTimestamp(
+      timestamp,
+      network.chainId,
+    );
     this.logger.log(
       `Timestamp ${timestamp.toISOString()} corresponds to block ~${blockNumber}`,
     );
@@ -397,21 +578,14 @@ export class DidService {
    * Get the owner of a DID at a specific block number
    */
   async getOwnerAtBlock(did: string, blockNumber: number): Promise<string> {
-    const address = this.extractAddress(did);
+    const { address } = this.parseDid(did);
 
-    // Get all owner changed events up to the target block
-    const ownerEvents = await this.eventRepository.find({
-      where: {
-        eventName: 'DIDOwnerChanged',
-        blockNumber: LessThanOrEqual(blockNumber),
-      },
-      order: { blockNumber: 'DESC', id: 'DESC' },
-    });
+    const events = await this.getIdentityHistory(did, blockNumber);
 
     // Find the most recent owner change for this identity
-    for (const event of ownerEvents) {
-      const args = event.args as OwnerChangedArgs;
-      if (args.identity?.toLowerCase() === address.toLowerCase()) {
+    for (const event of events.reverse()) {
+      if (event.eventName === 'DIDOwnerChanged') {
+        const args = event.args as OwnerChangedArgs;
         return args.owner.toLowerCase();
       }
     }
@@ -424,20 +598,25 @@ export class DidService {
    * Get the owner of a DID at a specific timestamp
    */
   async getOwnerAtTime(did: string, timestamp: Date): Promise<string> {
-    const blockNumber = await this.getBlockByTimestamp(timestamp);
+    const { network } = this.parseDid(did);
+    const blockNumber = await this.getBlockByTimestamp(
+      timestamp,
+      network.chainId,
+    );
     return this.getOwnerAtBlock(did, blockNumber);
   }
 
   /**
    * Check if an address was a valid signer for a DID at a specific block
-   * (either owner or valid delegate)
+   * (either owner or valid delegate, optionally of one delegate type)
    */
   async wasValidSignerAtBlock(
     did: string,
     signerAddress: string,
     blockNumber: number,
+    delegateType?: string,
   ): Promise<boolean> {
-    const address = this.extractAddress(did);
+    const { network } = this.parseDid(did);
     const signer = signerAddress.toLowerCase();
 
     // Check if signer was the owner
@@ -447,34 +626,32 @@ export class DidService {
     }
 
     // Check if signer was a valid delegate
-    const events = await this.eventRepository.find({
-      where: {
-        eventName: 'DIDDelegateChanged',
-        blockNumber: LessThanOrEqual(blockNumber),
-      },
-      order: { blockNumber: 'ASC', id: 'ASC' },
-    });
+    const events = await this.getIdentityHistory(did, blockNumber);
 
     // Reconstruct delegate state at that block
     const delegateState = new Map<string, number>(); // delegate -> validTo
 
     for (const event of events) {
+      if (event.eventName !== 'DIDDelegateChanged') continue;
       const args = event.args as DelegateChangedArgs;
-      if (args.identity?.toLowerCase() !== address.toLowerCase()) continue;
 
       const delegateKey = `${args.delegateType}:${args.delegate.toLowerCase()}`;
       delegateState.set(delegateKey, parseInt(args.validTo));
     }
 
     // Check if signer was a valid delegate at the block time
-    const block = await this.provider.getBlock(blockNumber);
+    const block = await this.getProvider(network.chainId).getBlock(blockNumber);
     if (!block) return false;
 
     const blockTimestamp = block.timestamp;
 
     for (const [key, validTo] of delegateState) {
-      const [, delegateAddr] = key.split(':');
-      if (delegateAddr === signer && validTo > blockTimestamp) {
+      const [type, delegateAddr] = key.split(':');
+      if (
+        delegateAddr === signer &&
+        validTo > blockTimestamp &&
+        (!delegateType || type === delegateType)
+      ) {
         return true;
       }
     }
@@ -489,16 +666,263 @@ export class DidService {
     did: string,
     signerAddress: string,
     timestamp: Date,
+    delegateType?: string,
   ): Promise<boolean> {
-    const blockNumber = await this.getBlockByTimestamp(timestamp);
-    return this.wasValidSignerAtBlock(did, signerAddress, blockNumber);
+    const { network } = this.parseDid(did);
+    const blockNumber = await this.getBlockByTimestamp(
+      timestamp,
+      network.chainId,
+    );
+    return this.wasValidSignerAtBlock(
+      did,
+      signerAddress,
+      blockNumber,
+      delegateType,
+    );
+  }
+
+  // ===================================================================
+  // Per-identity history (previousChange linked list)
+  // ===================================================================
+
+  /**
+   * Get an identity's events up to a block, oldest first.
+   *
+   * Like ethr-did-resolver, this starts from the registry's `changed`
+   * value at that block and follows each event's `previousChange` back
+   * to the identity's first change, so the cost depends only on this
+   * identity's history rather than on the whole registry. With fromChain
+   * the index is bypassed and only registry state and logs are used.
+   */
+  async getIdentityHistory(
+    did: string,
+    blockNumber: number,
+    fromChain = false,
+  ): Promise<Event[]> {
+    const ethrDid = this.parseDid(did);
+    let changeBlock = await this.getLastChangeBlock(
+      ethrDid,
+      blockNumber,
+      fromChain,
+    );
+
+    const history: Event[] = [];
+    const visited = new Set<number>();
+
+    while (changeBlock > 0 && !visited.has(changeBlock)) {
+      visited.add(changeBlock);
+
+      const events = await this.getIdentityEventsInBlock(
+        ethrDid,
+        changeBlock,
+        fromChain,
+      );
+      history.unshift(...events);
+
+      // Later events in the same block point back to this block, the
+      // first one points to the previous change
+      const previous = events
+        .map((e) => e.previousChange)
+        .filter((block) => block < changeBlock);
+      changeBlock = previous.length > 0 ? Math.min(...previous) : 0;
+    }
+
+    return history;
+  }
+
+  /**
+   * First change of an identity after the given block, if any
+   */
+  async getNextChange(did: string, blockNumber: number): Promise<Event | null> {
+    const { address, network } = this.parseDid(did);
+
+    return this.eventRepository.findOne({
+      where: {
+        chainId: network.chainId,
+        identity: address,
+        blockNumber: MoreThan(blockNumber),
+      },
+      order: { blockNumber: 'ASC', logIndex: 'ASC' },
+    });
+  }
+
+  /**
+   * Whether the identity has ever set an attribute to a raw value, read
+   * from the indexed attributes. Null if it has not and the indexer is
+   * behind the confirmed chain head, so a recent change may be missing.
+   */
+  async hasIndexedAttribute(
+    did: string,
+    name: string,
+    rawValue: string,
+  ): Promise<boolean | null> {
+    const { address, network } = this.parseDid(did);
+
+    const found = await this.attributeRepository.exists({
+      where: {
+        identity: { chainId: network.chainId, address },
+        name,
+        valueHash: ethers.keccak256(rawValue),
+      },
+    });
+    if (found) return true;
+
+    const checkpoint = await this.checkpointRepository.findOne({
+      where: {
+        chainId: network.chainId,
+        contractAddress: network.registry.toLowerCase(),
+      },
+    });
+    const confirmedBlock =
+      (await this.getLatestBlockNumber(network.chainId)) - this.confirmations;
+
+    return checkpoint && checkpoint.lastProcessedBlock >= confirmedBlock
+      ? false
+      : null;
+  }
+
+  async getLatestBlockNumber(chainId?: number): Promise<number> {
+    return this.getProvider(chainId).getBlockNumber();
+  }
+
+  /**
+   * Block of the identity's last change at or before the given block,
+   * read from the registry with a fallback to the indexed events
+   */
+  private async getLastChangeBlock(
+    { address: identity, network }: EthrDid,
+    blockNumber: number,
+    fromChain = false,
+  ): Promise<number> {
+    try {
+      const changed = (await this.getRegistry(network).changed(identity, {
+        blockTag: blockNumber,
+      })) as bigint;
+      return Number(changed);
+    } catch (error) {
+      if (fromChain) throw error;
+      this.logger.warn(
+        `Could not read changed(${identity}) at block ${blockNumber}, using indexed events: ${error}`,
+      );
+    }
+
+    const lastEvent = await this.eventRepository.findOne({
+      where: {
+        chainId: network.chainId,
+        identity,
+        blockNumber: LessThanOrEqual(blockNumber),
+      },
+      order: { blockNumber: 'DESC', logIndex: 'DESC' },
+    });
+    return lastEvent?.blockNumber ?? 0;
+  }
+
+  /**
+   * Events of one identity in one block, from the index or, if that block
+   * has not been indexed yet, straight from the chain
+   */
+  private async getIdentityEventsInBlock(
+    { address: identity, network }: EthrDid,
+    blockNumber: number,
+    fromChain = false,
+  ): Promise<Event[]> {
+    if (!fromChain) {
+      const indexed = await this.eventRepository.find({
+        where: { chainId: network.chainId, identity, blockNumber },
+        order: { logIndex: 'ASC' },
+      });
+      if (indexed.length > 0) {
+        return indexed;
+      }
+    }
+
+    const provider = this.getProvider(network.chainId);
+    const [logs, block] = await Promise.all([
+      provider.getLogs({
+        address: network.registry,
+        topics: [null, ethers.zeroPadValue(identity, 32)],
+        fromBlock: blockNumber,
+        toBlock: blockNumber,
+      }),
+      provider.getBlock(blockNumber),
+    ]);
+
+    return logs
+      .map((log) => this.toEvent(network, log, block?.timestamp ?? 0))
+      .filter((event): event is Event => event !== null);
+  }
+
+  /**
+   * Decode a raw registry log into the same shape the indexer stores
+   */
+  private toEvent(
+    network: NetworkConfig,
+    log: ethers.Log,
+    blockTimestamp: number,
+  ): Event | null {
+    const parsed = this.getRegistry(network).interface.parseLog(log);
+    if (!parsed) return null;
+
+    const decodeBytes32 = (value: string) => {
+      try {
+        return ethers.decodeBytes32String(value);
+      } catch {
+        return value;
+      }
+    };
+
+    const [identity] = parsed.args as unknown as [string];
+    const previousChange = parsed.args.previousChange as bigint;
+    let args: OwnerChangedArgs | DelegateChangedArgs | AttributeChangedArgs;
+
+    switch (parsed.name) {
+      case 'DIDOwnerChanged':
+        args = {
+          identity,
+          owner: parsed.args.owner as string,
+          previousChange: previousChange.toString(),
+        };
+        break;
+      case 'DIDDelegateChanged':
+        args = {
+          identity,
+          delegateType: decodeBytes32(parsed.args.delegateType as string),
+          delegate: parsed.args.delegate as string,
+          validTo: (parsed.args.validTo as bigint).toString(),
+          previousChange: previousChange.toString(),
+        };
+        break;
+      case 'DIDAttributeChanged':
+        args = {
+          identity,
+          name: decodeBytes32(parsed.args.name as string),
+          value: ethers.hexlify(parsed.args.value as string),
+          validTo: (parsed.args.validTo as bigint).toString(),
+          previousChange: previousChange.toString(),
+        };
+        break;
+      default:
+        return null;
+    }
+
+    return this.eventRepository.create({
+      chainId: network.chainId,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      blockTimestamp,
+      eventName: parsed.name,
+      identity: identity.toLowerCase(),
+      previousChange: Number(previousChange),
+      args,
+    });
   }
 
   /**
    * Reconstruct the DID state from events up to a specific block
    */
   private reconstructStateFromEvents(
-    address: string,
     events: Event[],
     maxBlock: number,
   ): {
@@ -509,11 +933,22 @@ export class DidService {
     let owner: string | null = null;
     const delegatesMap = new Map<
       string,
-      { delegateType: string; delegateAddress: string; validTo: number }
+      {
+        delegateType: string;
+        delegateAddress: string;
+        validTo: number;
+        revoked: boolean;
+      } & RegistryLog
     >();
+    // Keyed by name and raw value, since one name may hold several values
     const attributesMap = new Map<
       string,
-      { name: string; value: string; validTo: number }
+      {
+        name: string;
+        value: string;
+        validTo: number;
+        revoked: boolean;
+      } & RegistryLog
     >();
 
     for (const event of events) {
@@ -528,19 +963,30 @@ export class DidService {
         case 'DIDDelegateChanged': {
           const args = event.args as DelegateChangedArgs;
           const key = `${args.delegateType}:${args.delegate.toLowerCase()}`;
+          const validTo = parseInt(args.validTo);
+          const { blockNumber, logIndex } = delegatesMap.get(key) ?? event;
           delegatesMap.set(key, {
             delegateType: args.delegateType,
             delegateAddress: args.delegate.toLowerCase(),
-            validTo: parseInt(args.validTo),
+            validTo,
+            revoked: validTo <= event.blockTimestamp,
+            blockNumber,
+            logIndex,
           });
           break;
         }
         case 'DIDAttributeChanged': {
           const args = event.args as AttributeChangedArgs;
-          attributesMap.set(args.name, {
+          const key = `${args.name}:${args.value}`;
+          const validTo = parseInt(args.validTo);
+          const { blockNumber, logIndex } = attributesMap.get(key) ?? event;
+          attributesMap.set(key, {
             name: args.name,
-            value: args.value,
-            validTo: parseInt(args.validTo),
+            value: this.decodeAttributeValue(args.value),
+            validTo,
+            revoked: validTo <= event.blockTimestamp,
+            blockNumber,
+            logIndex,
           });
           break;
         }
@@ -552,14 +998,32 @@ export class DidService {
       delegateType: d.delegateType,
       delegateAddress: d.delegateAddress,
       validTo: d.validTo,
+      revoked: d.revoked,
+      blockNumber: d.blockNumber,
+      logIndex: d.logIndex,
     })) as unknown as Delegate[];
 
     const attributes = Array.from(attributesMap.values()).map((a) => ({
       name: a.name,
       value: a.value,
       validTo: a.validTo,
+      revoked: a.revoked,
+      blockNumber: a.blockNumber,
+      logIndex: a.logIndex,
     })) as unknown as Attribute[];
 
     return { owner, delegates, attributes };
   }
+
+  /**
+   * Stored event args hold the raw hex value; decode it the same way the
+   * indexer does for the Attribute table
+   */
+  private decodeAttributeValue(value: string): string {
+    try {
+      return ethers.toUtf8String(value);
+    } catch {
+      return value;
+    }
+  }
 }
@@ -0,0 +1,75 @@
+import { randomBytes } from 'crypto';
+import {
+  ANONCRYPT_ALG,
+  AUTHCRYPT_ALG,
+  DidCommMessage,
+  fromDidKey,
+  packEncrypted,
+  readProtectedHeader,
+  unpackEncrypted,
+  x25519KeyPair,
+} from './didcomm-crypto';
+
+const newKeyPair = () => x25519KeyPair(randomBytes(32).toString('hex'));
+
+const message: DidCommMessage = {
+  id: '1234',
+  type: 'https://didcomm.org/basicmessage/2.0/message',
+  from: 'did:ethr:0x1111111111111111111111111111111111111111',
+  to: ['did:ethr:0x2222222222222222222222222222222222222222'],
+  body: { content: 'hello' },
+};
+
+describe('didcomm-crypto', () => {
+  it('should anoncrypt to every recipient', () => {
+    const alice = newKeyPair();
+    const bob = newKeyPair();
+
+    const jwe = packEncrypted(message, [alice, bob]);
+
+    expect(readProtectedHeader(jwe).alg).toBe(ANONCRYPT_ALG);
+    expect(unpackEncrypted(jwe, alice)).toEqual(message);
+    expect(unpackEncrypted(jwe, bob)).toEqual(message);
+    expect(() => unpackEncrypted(jwe, newKeyPair())).toThrow(
+      'Message is not encrypted to',
+    );
+  });
+
+  it('should authcrypt with the sender key', () => {
+    const sender = newKeyPair();
+    const recipient = newKeyPair();
+
+    const jwe = packEncrypted(message, [recipient], sender);
+    const header = readProtectedHeader(jwe);
+
+    expect(header.alg).toBe(AUTHCRYPT_ALG);
+    expect(header.skid).toBe(sender.kid);
+    expect(unpackEncrypted(jwe, recipient, sender.publicKey)).toEqual(message);
+    expect(() =>
+      unpackEncrypted(jwe, recipient, newKeyPair().publicKey),
+    ).toThrow();
+  });
+
+  it('should reject a tampered ciphertext', () => {
+    const recipient = newKeyPair();
+    const jwe = packEncrypted(message, [recipient]);
+    const ciphertext = Buffer.from(jwe.ciphertext, 'base64url');
+    ciphertext[0] ^= 1;
+
+    expect(() =>
+      unpackEncrypted(
+        { ...jwe, ciphertext: ciphertext.toString('base64url') },
+        recipient,
+      ),
+    ).toThrow('Message authentication failed');
+  });
+
+  it('should identify keys by their did:key', () => {
+    const keyPair = newKeyPair();
+
+    expect(keyPair.kid).toMatch(/^did:key:z6LS\w+#z6LS\w+$/);
+    expect(fromDidKey(keyPair.kid).export({ format: 'jwk' })).toEqual(
+      keyPair.publicKey.export({ format: 'jwk' }),
+    );
+  });
+});
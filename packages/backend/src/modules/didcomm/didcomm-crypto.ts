@@ -0,0 +1,383 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  KeyObject,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+import { ethers } from 'ethers';
+
+// DIDComm v2 encrypted messages (JWE, General JSON Serialization) with
+// X25519 key agreement: anoncrypt is ECDH-ES+A256KW, authcrypt is
+// ECDH-1PU+A256KW, both with A256CBC-HS512 content encryption.
+
+export const DIDCOMM_ENCRYPTED_MEDIA_TYPE =
+  'application/didcomm-encrypted+json';
+export const DIDCOMM_PLAIN_MEDIA_TYPE = 'application/didcomm-plain+json';
+
+export const ANONCRYPT_ALG = 'ECDH-ES+A256KW';
+export const AUTHCRYPT_ALG = 'ECDH-1PU+A256KW';
+const CONTENT_ENCRYPTION = 'A256CBC-HS512';
+
+// RFC 3394 default initial value for AES key wrap
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+// PKCS#8 DER prefix of a raw X25519 private key
+const X25519_PKCS8_PREFIX = Buffer.from(
+  '302e020100300506032b656e04220420',
+  'hex',
+);
+// Multicodec varint for x25519-pub, used by did:key
+const X25519_MULTICODEC = Buffer.from([0xec, 0x01]);
+
+export interface DidCommAttachment {
+  id?: string;
+  media_type?: string;
+  data: { json?: unknown; base64?: string };
+}
+
+// DIDComm v2 plaintext message
+export interface DidCommMessage {
+  id: string;
+  type: string;
+  from?: string;
+  to?: string[];
+  created_time?: number;
+  expires_time?: number;
+  body: Record<string, unknown>;
+  attachments?: DidCommAttachment[];
+}
+
+export interface EncryptedMessage {
+  protected: string;
+  recipients: { header: { kid: string }; encrypted_key: string }[];
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+export interface ProtectedHeader {
+  typ: string;
+  alg: string;
+  enc: string;
+  epk: { kty: string; crv: string; x: string };
+  apv: string;
+  apu?: string;
+  skid?: string; // Sender key id, authcrypt only
+}
+
+// A key agreement key by its DID URL
+export interface KeyAgreementKey {
+  kid: string;
+  publicKey: KeyObject;
+}
+
+export interface KeyAgreementKeyPair extends KeyAgreementKey {
+  privateKey: KeyObject;
+}
+
+/**
+ * X25519 public key from its 32 raw bytes
+ */
+export function x25519PublicKey(raw: Uint8Array): KeyObject {
+  if (raw.length !== 32) {
+    throw new Error('X25519 public key must be 32 bytes');
+  }
+  return createPublicKey({
+    key: {
+      kty: 'OKP',
+      crv: 'X25519',
+      x: Buffer.from(raw).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * A key pair from a hex X25519 private key, identified by its did:key
+ */
+export function x25519KeyPair(privateKeyHex: string): KeyAgreementKeyPair {
+  const raw = Buffer.from(privateKeyHex.replace(/^0x/, ''), 'hex');
+  if (raw.length !== 32) {
+    throw new Error('X25519 private key must be 32 bytes');
+  }
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, raw]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const publicKey = createPublicKey(privateKey);
+  return { kid: toDidKeyUrl(publicKey), publicKey, privateKey };
+}
+
+/**
+ * "did:key:z6LS...#z6LS..." for an X25519 public key
+ */
+export function toDidKeyUrl(publicKey: KeyObject): string {
+  const multibase = `z${ethers.encodeBase58(
+    Buffer.concat([X25519_MULTICODEC, rawPublicKey(publicKey)]),
+  )}`;
+  return `did:key:${multibase}#${multibase}`;
+}
+
+/**
+ * The X25519 key of a did:key DID or DID URL
+ */
+export function fromDidKey(didKey: string): KeyObject {
+  const multibase = didKey.split('#')[0].replace(/^did:key:/, '');
+  if (!multibase.startsWith('z')) {
+    throw new Error(`Unsupported did:key: ${didKey}`);
+  }
+  const bytes = Buffer.from(
+    ethers.toBeArray(ethers.decodeBase58(multibase.slice(1))),
+  );
+  if (!bytes.subarray(0, 2).equals(X25519_MULTICODEC)) {
+    throw new Error(`Not an X25519 did:key: ${didKey}`);
+  }
+  return x25519PublicKey(bytes.subarray(2));
+}
+
+/**
+ * Encrypt a message to one or more recipients; with a sender key the
+ * message is authcrypted, otherwise anoncrypted
+ */
+export function packEncrypted(
+  message: DidCommMessage,
+  recipients: KeyAgreementKey[],
+  sender?: KeyAgreementKeyPair,
+): EncryptedMessage {
+  if (recipients.length === 0) {
+    throw new Error('At least one recipient key is required');
+  }
+
+  const ephemeral = generateKeyPairSync('x25519');
+  const apv = createHash('sha256')
+    .update(
+      recipients
+        .map((r) => r.kid)
+        .sort()
+        .join('.'),
+    )
+    .digest();
+  const header: ProtectedHeader = {
+    typ: DIDCOMM_ENCRYPTED_MEDIA_TYPE,
+    alg: sender ? AUTHCRYPT_ALG : ANONCRYPT_ALG,
+    enc: CONTENT_ENCRYPTION,
+    epk: {
+      kty: 'OKP',
+      crv: 'X25519',
+      x: rawPublicKey(ephemeral.publicKey).toString('base64url'),
+    },
+    apv: apv.toString('base64url'),
+    ...(sender && {
+      apu: Buffer.from(sender.kid).toString('base64url'),
+      skid: sender.kid,
+    }),
+  };
+  const protectedHeader = Buffer.from(JSON.stringify(header)).toString(
+    'base64url',
+  );
+
+  // Content first: ECDH-1PU binds the key wrap to the content tag
+  const cek = randomBytes(64);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-cbc', cek.subarray(32), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(message)),
+    cipher.final(),
+  ]);
+  const tag = contentTag(cek, Buffer.from(protectedHeader), iv, ciphertext);
+
+  return {
+    protected: protectedHeader,
+    recipients: recipients.map((recipient) => {
+      const kek = deriveKek(
+        header,
+        diffieHellman({
+          privateKey: ephemeral.privateKey,
+          publicKey: recipient.publicKey,
+        }),
+        sender &&
+          diffieHellman({
+            privateKey: sender.privateKey,
+            publicKey: recipient.publicKey,
+          }),
+        tag,
+      );
+      const wrap = createCipheriv('id-aes256-wrap', kek, KEY_WRAP_IV);
+      return {
+        header: { kid: recipient.kid },
+        encrypted_key: Buffer.concat([wrap.update(cek), wrap.final()]).toString(
+          'base64url',
+        ),
+      };
+    }),
+    iv: iv.toString('base64url'),
+    ciphertext: ciphertext.toString('base64url'),
+    tag: tag.toString('base64url'),
+  };
+}
+
+/**
+ * Decode the protected header, e.g. to look up the sender key first
+ */
+export function readProtectedHeader(jwe: EncryptedMessage): ProtectedHeader {
+  if (
+    typeof jwe?.protected !== 'string' ||
+    !Array.isArray(jwe.recipients) ||
+    typeof jwe.iv !== 'string' ||
+    typeof jwe.ciphertext !== 'string' ||
+    typeof jwe.tag !== 'string'
+  ) {
+    throw new Error('Not a JWE in General JSON Serialization');
+  }
+
+  const header = JSON.parse(
+    Buffer.from(jwe.protected, 'base64url').toString('utf8'),
+  ) as ProtectedHeader;
+  if (header.enc !== CONTENT_ENCRYPTION) {
+    throw new Error(`Unsupported content encryption: ${header.enc}`);
+  }
+  if (header.alg !== ANONCRYPT_ALG && header.alg !== AUTHCRYPT_ALG) {
+    throw new Error(`Unsupported key agreement: ${header.alg}`);
+  }
+  if (header.epk?.crv !== 'X25519') {
+    throw new Error('Only X25519 key agreement is supported');
+  }
+  if (header.alg === AUTHCRYPT_ALG) {
+    if (
+      !header.skid ||
+      header.apu !== Buffer.from(header.skid).toString('base64url')
+    ) {
+      throw new Error('Authcrypt message without a matching sender key id');
+    }
+  }
+  return header;
+}
+
+/**
+ * Decrypt a message with the key of one of its recipients; authcrypted
+ * messages also need the public key of the header's skid
+ */
+export function unpackEncrypted(
+  jwe: EncryptedMessage,
+  recipient: KeyAgreementKeyPair,
+  senderPublicKey?: KeyObject,
+): DidCommMessage {
+  const header = readProtectedHeader(jwe);
+  const entry = jwe.recipients.find((r) => r.header?.kid === recipient.kid);
+  if (!entry) {
+    throw new Error(`Message is not encrypted to ${recipient.kid}`);
+  }
+  if (header.alg === AUTHCRYPT_ALG && !senderPublicKey) {
+    throw new Error('Sender key is required for an authcrypt message');
+  }
+
+  const tag = Buffer.from(jwe.tag, 'base64url');
+  const kek = deriveKek(
+    header,
+    diffieHellman({
+      privateKey: recipient.privateKey,
+      publicKey: x25519PublicKey(Buffer.from(header.epk.x, 'base64url')),
+    }),
+    header.alg === AUTHCRYPT_ALG
+      ? diffieHellman({
+          privateKey: recipient.privateKey,
+          publicKey: senderPublicKey!,
+        })
+      : undefined,
+    tag,
+  );
+
+  let cek: Buffer;
+  try {
+    const unwrap = createDecipheriv('id-aes256-wrap', kek, KEY_WRAP_IV);
+    cek = Buffer.concat([
+      unwrap.update(Buffer.from(entry.encrypted_key, 'base64url')),
+      unwrap.final(),
+    ]);
+  } catch {
+    throw new Error('Could not unwrap the content encryption key');
+  }
+
+  const iv = Buffer.from(jwe.iv, 'base64url');
+  const ciphertext = Buffer.from(jwe.ciphertext, 'base64url');
+  const expectedTag = contentTag(
+    cek,
+    Buffer.from(jwe.protected),
+    iv,
+    ciphertext,
+  );
+  if (tag.length !== expectedTag.length || !timingSafeEqual(tag, expectedTag)) {
+    throw new Error('Message authentication failed');
+  }
+
+  const decipher = createDecipheriv('aes-256-cbc', cek.subarray(32), iv);
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString('utf8')) as DidCommMessage;
+}
+
+function rawPublicKey(publicKey: KeyObject): Buffer {
+  const { x } = publicKey.export({ format: 'jwk' });
+  return Buffer.from(x!, 'base64url');
+}
+
+/**
+ * A256CBC-HS512 authentication tag (RFC 7518 section 5.2.2)
+ */
+function contentTag(
+  cek: Buffer,
+  aad: Buffer,
+  iv: Buffer,
+  ciphertext: Buffer,
+): Buffer {
+  const aadLength = Buffer.alloc(8);
+  aadLength.writeBigUInt64BE(BigInt(aad.length * 8));
+  return createHmac('sha512', cek.subarray(0, 32))
+    .update(Buffer.concat([aad, iv, ciphertext, aadLength]))
+    .digest()
+    .subarray(0, 32);
+}
+
+/**
+ * Key encryption key via the Concat KDF; ECDH-1PU adds the static-static
+ * secret and the content tag (draft-madden-jose-ecdh-1pu-04)
+ */
+function deriveKek(
+  header: ProtectedHeader,
+  ephemeralSecret: Buffer,
+  senderSecret: Buffer | undefined,
+  tag: Buffer,
+): Buffer {
+  const lengthPrefixed = (data: Buffer) =>
+    Buffer.concat([uint32(data.length), data]);
+
+  const otherInfo = Buffer.concat([
+    lengthPrefixed(Buffer.from(header.alg)),
+    lengthPrefixed(Buffer.from(header.apu ?? '', 'base64url')),
+    lengthPrefixed(Buffer.from(header.apv, 'base64url')),
+    uint32(256),
+    ...(senderSecret ? [lengthPrefixed(tag)] : []),
+  ]);
+  const secret = senderSecret
+    ? Buffer.concat([ephemeralSecret, senderSecret])
+    : ephemeralSecret;
+
+  return createHash('sha256')
+    .update(Buffer.concat([uint32(1), secret, otherInfo]))
+    .digest();
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
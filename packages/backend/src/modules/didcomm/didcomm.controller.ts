@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { DidCommService } from './didcomm.service';
+import { EncryptedMessage } from './didcomm-crypto';
+import { AuthGuard, CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
+
+@Controller('api/didcomm')
+export class DidCommController {
+  constructor(private readonly didCommService: DidCommService) {}
+
+  /**
+   * Mediator endpoint for forward messages (application/didcomm-encrypted+json).
+   * Senders are anonymous to the mediator, so no session is needed.
+   * POST /api/didcomm
+   */
+  @Post()
+  @HttpCode(202)
+  async receive(@Body() body: EncryptedMessage) {
+    const { id } = await this.didCommService.receive(body);
+    return { id };
+  }
+
+  /**
+   * Messages waiting for the signed-in DID
+   * GET /api/didcomm/inbox
+   */
+  @Get('inbox')
+  @UseGuards(AuthGuard)
+  async getInbox(@CurrentUser() user: AuthUser) {
+    return this.didCommService.getInbox(user.did);
+  }
+
+  /**
+   * Remove a picked-up message from the signed-in DID's inbox
+   * DELETE /api/didcomm/inbox/:id
+   */
+  @Delete('inbox/:id')
+  @UseGuards(AuthGuard)
+  @HttpCode(204)
+  async deleteMessage(@CurrentUser() user: AuthUser, @Param('id') id: string) {
+    await this.didCommService.deleteMessage(user.did, id);
+  }
+}
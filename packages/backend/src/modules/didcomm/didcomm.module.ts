@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DidCommController } from './didcomm.controller';
+import { DidCommService } from './didcomm.service';
+import { InboxMessage } from '../../entities/InboxMessage';
+import { DidModule } from '../did/did.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([InboxMessage]), DidModule, AuthModule],
+  controllers: [DidCommController],
+  providers: [DidCommService],
+  exports: [DidCommService],
+})
+export class DidCommModule {}
@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { KeyObject, randomUUID } from 'crypto';
+import { InboxMessage } from '../../entities/InboxMessage';
+import { DidService, VerificationMethod } from '../did/did.service';
+import { getPublicKey } from '../did/did-keys';
+import {
+  DidCommMessage,
+  EncryptedMessage,
+  fromDidKey,
+  KeyAgreementKey,
+  KeyAgreementKeyPair,
+  packEncrypted,
+  readProtectedHeader,
+  unpackEncrypted,
+  x25519KeyPair,
+  x25519PublicKey,
+} from './didcomm-crypto';
+
+// DIDComm Routing Protocol 2.0
+export const FORWARD_MESSAGE_TYPE = 'https://didcomm.org/routing/2.0/forward';
+
+export interface UnpackedMessage {
+  message: DidCommMessage;
+  recipientKid: string;
+  senderKid?: string; // Authcrypt only
+}
+
+@Injectable()
+export class DidCommService {
+  private readonly logger = new Logger(DidCommService.name);
+  private readonly mediatorKey: KeyAgreementKeyPair | null = null;
+
+  constructor(
+    @InjectRepository(InboxMessage)
+    private inboxRepository: Repository<InboxMessage>,
+    private configService: ConfigService,
+    private didService: DidService,
+  ) {
+    const mediatorKey = this.configService.get<string>('DIDCOMM_MEDIATOR_KEY');
+    if (mediatorKey) {
+      this.mediatorKey = x25519KeyPair(mediatorKey);
+      this.logger.log(`DIDComm mediator key: ${this.mediatorKey.kid}`);
+    } else {
+      this.logger.warn('DIDCOMM_MEDIATOR_KEY not set, mediator is disabled');
+    }
+  }
+
+  /**
+   * Encrypt a message to a DID's key agreement keys, authcrypted if a
+   * sender key is given, and wrapped in a forward message for each
+   * routing key of the DID's DIDComm service
+   */
+  async pack(
+    message: DidCommMessage,
+    to: string,
+    sender?: KeyAgreementKeyPair,
+  ): Promise<EncryptedMessage> {
+    let packed = packEncrypted(
+      message,
+      await this.resolveKeyAgreementKeys(to),
+      sender,
+    );
+    if (to.startsWith('did:key:')) return packed;
+
+    const didDocument = await this.didService.resolve(to.split('#')[0]);
+    const endpoint = didDocument.service?.find(
+      (s) => s.type === 'DIDCommMessaging',
+    )?.serviceEndpoint as { routingKeys?: string[] } | undefined;
+
+    let next = didDocument.id;
+    for (const routingKey of [...(endpoint?.routingKeys ?? [])].reverse()) {
+      packed = packEncrypted(
+        {
+          id: randomUUID(),
+          type: FORWARD_MESSAGE_TYPE,
+          to: [routingKey.split('#')[0]],
+          body: { next },
+          attachments: [{ data: { json: packed } }],
+        },
+        await this.resolveKeyAgreementKeys(routingKey),
+      );
+      next = routingKey;
+    }
+
+    return packed;
+  }
+
+  /**
+   * Decrypt a message with one of the given keys; for authcrypt the
+   * sender's key is resolved from its DID and must belong to "from"
+   */
+  async unpack(
+    jwe: EncryptedMessage,
+    recipientKeys: KeyAgreementKeyPair[],
+  ): Promise<UnpackedMessage> {
+    try {
+      const { skid } = readProtectedHeader(jwe);
+      const recipient = recipientKeys.find((key) =>
+        jwe.recipients.some((r) => r.header?.kid === key.kid),
+      );
+      if (!recipient) {
+        throw new Error('Message is not encrypted to any of our keys');
+      }
+
+      let senderKey: KeyAgreementKey | undefined;
+      if (skid) {
+        [senderKey] = await this.resolveKeyAgreementKeys(skid);
+      }
+
+      const message = unpackEncrypted(jwe, recipient, senderKey?.publicKey);
+      if (
+        skid &&
+        (!message.from ||
+          this.toCanonicalDid(message.from) !==
+            this.toCanonicalDid(skid.split('#')[0]))
+      ) {
+        throw new Error('Sender key does not belong to the "from" DID');
+      }
+
+      return { message, recipientKid: recipient.kid, senderKid: skid };
+    } catch (error) {
+      if (error instanceof BadRequestException) throw error;
+      throw new BadRequestException(
+        `Invalid DIDComm message: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Mediator endpoint: accept a forward message and queue the enclosed
+   * message in the inbox of the "next" DID
+   */
+  async receive(jwe: EncryptedMessage): Promise<InboxMessage> {
+    if (!this.mediatorKey) {
+      throw new BadRequestException('DIDComm mediator is not configured');
+    }
+
+    const { message } = await this.unpack(jwe, [this.mediatorKey]);
+    if (message.type !== FORWARD_MESSAGE_TYPE) {
+      throw new BadRequestException(
+        `Mediator only accepts ${FORWARD_MESSAGE_TYPE} messages`,
+      );
+    }
+    if (message.expires_time && message.expires_time * 1000 < Date.now()) {
+      throw new BadRequestException('Forward message has expired');
+    }
+
+    const next = message.body.next;
+    const forwarded = message.attachments?.[0]?.data.json;
+    if (
+      typeof next !== 'string' ||
+      !forwarded ||
+      typeof forwarded !== 'object'
+    ) {
+      throw new BadRequestException(
+        'Forward message needs a "next" DID and an attached message',
+      );
+    }
+
+    return this.inboxRepository.save({
+      recipient: this.didService.toCanonicalDid(next.split('#')[0]),
+      message: forwarded as Record<string, unknown>,
+    });
+  }
+
+  /**
+   * Messages waiting for a DID, oldest first
+   */
+  async getInbox(did: string): Promise<InboxMessage[]> {
+    return this.inboxRepository.find({
+      where: { recipient: this.didService.toCanonicalDid(did) },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Remove a message once its recipient has picked it up
+   */
+  async deleteMessage(did: string, id: string): Promise<void> {
+    const { affected } = await this.inboxRepository.delete({
+      id,
+      recipient: this.didService.toCanonicalDid(did),
+    });
+
+    if (!affected) {
+      throw new NotFoundException('Message not found');
+    }
+  }
+
+  /**
+   * X25519 key agreement keys of a DID, or the one key a DID URL names;
+   * did:key identifiers carry the key itself
+   */
+  async resolveKeyAgreementKeys(didOrKid: string): Promise<KeyAgreementKey[]> {
+    if (didOrKid.startsWith('did:key:')) {
+      const kid = didOrKid.includes('#')
+        ? didOrKid
+        : `${didOrKid}#${didOrKid.slice('did:key:'.length)}`;
+      return [{ kid, publicKey: fromDidKey(didOrKid) }];
+    }
+
+    const [did, fragment] = didOrKid.split('#');
+    const didDocument = await this.didService.resolve(did);
+    const keyAgreementIds = (didDocument.keyAgreement ?? []).map((method) =>
+      typeof method === 'string' ? method : method.id,
+    );
+
+    const keys = didDocument.verificationMethod
+      .filter(
+        (vm) =>
+          keyAgreementIds.includes(vm.id) &&
+          (!fragment || vm.id === `${didDocument.id}#${fragment}`),
+      )
+      .flatMap((vm) => {
+        const publicKey = this.getX25519Key(vm);
+        return publicKey ? [{ kid: vm.id, publicKey }] : [];
+      });
+
+    if (keys.length === 0) {
+      throw new BadRequestException(
+        `No X25519 key agreement key for ${didOrKid}`,
+      );
+    }
+    return keys;
+  }
+
+  private toCanonicalDid(did: string): string {
+    return did.startsWith('did:key:')
+      ? did
+      : this.didService.toCanonicalDid(did);
+  }
+
+  private getX25519Key(vm: VerificationMethod): KeyObject | undefined {
+    const publicKey = getPublicKey(vm);
+    if (publicKey?.algorithm !== 'X25519') return undefined;
+
+    try {
+      return x25519PublicKey(publicKey.bytes);
+    } catch {
+      return undefined; // Not a valid X25519 key
+    }
+  }
+}
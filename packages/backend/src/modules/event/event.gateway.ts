@@ -7,9 +7,11 @@ import {
 } from '@nestjs/websockets';
 import { Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
+import { RelayTransaction } from '../../entities/RelayTransaction';
 
 export interface DIDEvent {
   type: 'OwnerChanged' | 'DelegateChanged' | 'AttributeChanged';
+  chainId: number;
   identity: string;
   blockNumber: number;
   transactionHash: string;
@@ -63,6 +65,22 @@ export class EventGateway
     this.server.emit('event:new', event);
   }
 
+  /**
+   * Notify clients that a previously broadcast event was dropped by a reorg
+   */
+  broadcastRevertedEvent(event: DIDEvent) {
+    this.logger.debug(`Broadcasting reverted event: ${event.type}`);
+    this.server.emit('event:reverted', event);
+  }
+
+  /**
+   * Notify clients of a relayed meta-transaction status change
+   */
+  broadcastRelayTransaction(relay: RelayTransaction) {
+    this.logger.debug(`Broadcasting relay ${relay.id}: ${relay.status}`);
+    this.server.emit('relay:updated', relay);
+  }
+
   getConnectedClients(): number {
     return this.connectedClients;
   }
@@ -4,9 +4,10 @@ import { EventController } from './event.controller';
 import { EventService } from './event.service';
 import { EventGateway } from './event.gateway';
 import { Event } from '../../entities/Event';
+import { NetworkModule } from '../network/network.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Event])],
+  imports: [TypeOrmModule.forFeature([Event]), NetworkModule],
   controllers: [EventController],
   providers: [EventService, EventGateway],
   exports: [EventService, EventGateway],
@@ -1,7 +1,8 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Event } from '../../entities/Event';
+import { NetworkService } from '../network/network.service';
 
 export interface EventStats {
   totalEvents: number;
@@ -27,6 +28,7 @@ export class EventService {
   constructor(
     @InjectRepository(Event)
     private eventRepository: Repository<Event>,
+    private networkService: NetworkService,
   ) {}
 
   async findAll(limit: number = 10, offset: number = 0) {
@@ -43,6 +45,7 @@ export class EventService {
       const args = event.args as EventArgs | null;
       return {
         type: this.mapEventName(event.eventName),
+        chainId: event.chainId,
         identity: args?.identity ?? '',
         blockNumber: event.blockNumber,
         transactionHash: event.transactionHash,
@@ -69,19 +72,26 @@ export class EventService {
     };
   }
 
+  /**
+   * Events of one identity, given as a DID or a plain address
+   * (default network)
+   */
   async findByIdentity(
     identity: string,
     limit: number = 10,
     offset: number = 0,
   ) {
+    const ethrDid = this.networkService.parseEthrDid(identity);
+    if (!ethrDid) {
+      throw new BadRequestException(
+        `Invalid DID or unknown network: ${identity}`,
+      );
+    }
+
     const queryBuilder = this.eventRepository
       .createQueryBuilder('event')
-      .where("JSON_EXTRACT(event.args, '$.identity') = :identity", {
-        identity: identity.toLowerCase(),
-      })
-      .orWhere("JSON_EXTRACT(event.args, '$.identity') = :identityUpper", {
-        identityUpper: identity,
-      })
+      .where('event.chainId = :chainId', { chainId: ethrDid.network.chainId })
+      .andWhere('event.identity = :identity', { identity: ethrDid.address })
       .orderBy('event.createdAt', 'DESC')
       .take(limit)
       .skip(offset);
@@ -92,6 +102,7 @@ export class EventService {
       const args = event.args as EventArgs | null;
       return {
         type: this.mapEventName(event.eventName),
+        chainId: event.chainId,
         identity: args?.identity ?? '',
         blockNumber: event.blockNumber,
         transactionHash: event.transactionHash,
@@ -133,14 +144,11 @@ export class EventService {
         }),
       ]);
 
-    // Get unique identities count
+    // Get unique identities count (the same address on two chains counts twice)
     const uniqueIdentitiesResult: { count: string } | undefined =
       await this.eventRepository
         .createQueryBuilder('event')
-        .select(
-          "COUNT(DISTINCT JSON_EXTRACT(event.args, '$.identity'))",
-          'count',
-        )
+        .select('COUNT(DISTINCT event.chainId, event.identity)', 'count')
         .getRawOne();
 
     return {
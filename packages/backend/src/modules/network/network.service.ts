@@ -0,0 +1,171 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { parseDid } from '../did/did-parser';
+
+// A chain on which an EthereumDIDRegistry is deployed
+export interface NetworkConfig {
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  registry: string; // Lowercased registry contract address
+}
+
+// A did:ethr identifier bound to a configured network
+export interface EthrDid {
+  did: string; // did:ethr[:<networkId>]:<address>, as requested
+  networkId?: string; // Network part of the DID, if any
+  address: string; // Lowercased identity address
+  publicKey?: string; // Compressed public key of a key-based DID
+  network: NetworkConfig;
+}
+
+@Injectable()
+export class NetworkService {
+  private readonly logger = new Logger(NetworkService.name);
+  private readonly networks: NetworkConfig[];
+  private readonly providers = new Map<number, ethers.JsonRpcProvider>();
+
+  constructor(private configService: ConfigService) {
+    this.networks = this.loadNetworks();
+    this.logger.log(
+      `Configured networks: ${this.networks
+        .map((n) => `${n.name} (${n.chainId})`)
+        .join(', ')}`,
+    );
+  }
+
+  /**
+   * Networks come from NETWORKS (a JSON array of
+   * { name, chainId, rpcUrl, registry }). Without it, a single network is
+   * built from RPC_URL, CONTRACT_ADDRESS, CHAIN_ID and NETWORK_NAME.
+   * The first network is the default for DIDs without a network part.
+   */
+  private loadNetworks(): NetworkConfig[] {
+    const networksJson = this.configService.get<string>('NETWORKS');
+
+    if (!networksJson) {
+      return [
+        {
+          name: this.configService.get<string>('NETWORK_NAME', 'development'),
+          chainId: Number(this.configService.get<number>('CHAIN_ID', 31337)),
+          rpcUrl: this.configService.get<string>(
+            'RPC_URL',
+            'http://127.0.0.1:8545',
+          ),
+          registry: this.configService
+            .get<string>(
+              'CONTRACT_ADDRESS',
+              '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+            )
+            .toLowerCase(),
+        },
+      ];
+    }
+
+    const networks = JSON.parse(networksJson) as Partial<NetworkConfig>[];
+    if (!Array.isArray(networks) || networks.length === 0) {
+      throw new Error('NETWORKS must be a non-empty JSON array');
+    }
+
+    return networks.map((network) => {
+      if (
+        !network.name ||
+        !network.chainId ||
+        !network.rpcUrl ||
+        !network.registry
+      ) {
+        throw new Error(
+          `Invalid network configuration: ${JSON.stringify(network)}`,
+        );
+      }
+
+      return {
+        name: network.name,
+        chainId: Number(network.chainId),
+        rpcUrl: network.rpcUrl,
+        registry: network.registry.toLowerCase(),
+      };
+    });
+  }
+
+  getNetworks(): NetworkConfig[] {
+    return this.networks;
+  }
+
+  getDefaultNetwork(): NetworkConfig {
+    return this.networks[0];
+  }
+
+  /**
+   * Find a network by chain id, name or hex chain id (e.g. "0x5")
+   */
+  getNetwork(nameOrChainId: string | number): NetworkConfig | undefined {
+    if (typeof nameOrChainId === 'number') {
+      return this.networks.find((n) => n.chainId === nameOrChainId);
+    }
+
+    if (/^0x[0-9a-fA-F]+$/.test(nameOrChainId)) {
+      const chainId = parseInt(nameOrChainId, 16);
+      return this.networks.find((n) => n.chainId === chainId);
+    }
+
+    return this.networks.find(
+      (n) => n.name.toLowerCase() === nameOrChainId.toLowerCase(),
+    );
+  }
+
+  getProvider(chainId: number): ethers.JsonRpcProvider {
+    let provider = this.providers.get(chainId);
+
+    if (!provider) {
+      const network = this.getNetwork(chainId);
+      if (!network) {
+        throw new Error(`Unknown chain id: ${chainId}`);
+      }
+      provider = new ethers.JsonRpcProvider(network.rpcUrl);
+      this.providers.set(chainId, provider);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Parse a did:ethr DID (or a plain address, on the default network).
+   * Returns null if it is malformed or names an unknown network.
+   */
+  parseEthrDid(didOrAddress: string): EthrDid | null {
+    if (ethers.isAddress(didOrAddress)) {
+      const address = didOrAddress.toLowerCase();
+      return {
+        did: `did:ethr:${address}`,
+        address,
+        network: this.getDefaultNetwork(),
+      };
+    }
+
+    const parsed = parseDid(didOrAddress);
+    if (!parsed || parsed.method !== 'ethr' || !parsed.address) return null;
+
+    const network = parsed.network
+      ? this.getNetwork(parsed.network)
+      : this.getDefaultNetwork();
+    if (!network) return null;
+
+    return {
+      did: parsed.did,
+      networkId: parsed.network,
+      address: parsed.address,
+      publicKey: parsed.publicKey,
+      network,
+    };
+  }
+
+  /**
+   * Build the DID of another address on the same network as a given DID
+   */
+  toDid(address: string, sameNetworkAs?: EthrDid): string {
+    const networkId = sameNetworkAs?.networkId;
+    return `did:ethr:${networkId ? `${networkId}:` : ''}${address.toLowerCase()}`;
+  }
+}
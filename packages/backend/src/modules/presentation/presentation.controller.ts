@@ -0,0 +1,48 @@
+import { BadRequestException, Body, Controller, Post } from '@nestjs/common';
+import {
+  CreatePresentationDto,
+  PresentationService,
+  VerifiablePresentation,
+} from './presentation.service';
+
+@Controller('api/presentations')
+export class PresentationController {
+  constructor(private readonly presentationService: PresentationService) {}
+
+  /**
+   * Get a one-time challenge for a presentation to a verifier domain.
+   * Verifiers need no account here, so this is open.
+   * POST /api/presentations/challenges
+   */
+  @Post('challenges')
+  async createChallenge(@Body() body: { domain: string }) {
+    if (!body.domain) {
+      throw new BadRequestException('Domain is required.');
+    }
+    return this.presentationService.createChallenge(body.domain);
+  }
+
+  /**
+   * Bundle credentials into an unsigned presentation for the holder to
+   * sign. Nothing is stored; the holder's signature authenticates it.
+   * POST /api/presentations
+   */
+  @Post()
+  async create(@Body() dto: CreatePresentationDto) {
+    if (!dto.holderDid || !dto.challenge || !dto.domain) {
+      throw new BadRequestException(
+        'Holder DID, challenge and domain are required.',
+      );
+    }
+    return this.presentationService.create(dto);
+  }
+
+  /**
+   * Verify a signed presentation and the credentials it carries
+   * POST /api/presentations/verify
+   */
+  @Post('verify')
+  async verify(@Body() presentation: VerifiablePresentation) {
+    return this.presentationService.verify(presentation);
+  }
+}
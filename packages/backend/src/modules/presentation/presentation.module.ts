@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PresentationController } from './presentation.controller';
+import { PresentationService } from './presentation.service';
+import { PresentationChallenge } from '../../entities/PresentationChallenge';
+import { CredentialModule } from '../credential/credential.module';
+import { DidModule } from '../did/did.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PresentationChallenge]),
+    CredentialModule,
+    DidModule,
+  ],
+  controllers: [PresentationController],
+  providers: [PresentationService],
+})
+export class PresentationModule {}
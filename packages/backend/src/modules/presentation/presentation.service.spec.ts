@@ -0,0 +1,99 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { PresentationService } from './presentation.service';
+import { DidService } from '../did/did.service';
+import { CredentialService } from '../credential/credential.service';
+import { PresentationChallenge } from '../../entities/PresentationChallenge';
+
+const identityKey = ethers.Wallet.createRandom();
+const newOwnerKey = ethers.Wallet.createRandom();
+const HOLDER = `did:ethr:${identityKey.address.toLowerCase()}`;
+const DOMAIN = 'verifier.example';
+
+describe('PresentationService', () => {
+  let presentationService: PresentationService;
+  let controller: string;
+
+  beforeEach(async () => {
+    controller = identityKey.address.toLowerCase();
+    const challenge: PresentationChallenge = {
+      challenge: '0x01',
+      domain: DOMAIN,
+      expiresAt: new Date(Date.now() + 60_000),
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    const credential = {
+      id: 'urn:uuid:1',
+      credentialSubject: { id: HOLDER },
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PresentationService,
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        {
+          provide: DidService,
+          useValue: {
+            toCanonicalDid: (did: string) => did,
+            resolve: () =>
+              Promise.resolve({
+                id: HOLDER,
+                verificationMethod: [{ id: `${HOLDER}#controller` }],
+                authentication: [`${HOLDER}#controller`],
+              }),
+            getMethodAddress: () => controller,
+          },
+        },
+        {
+          provide: getRepositoryToken(PresentationChallenge),
+          useValue: {
+            findOne: () => Promise.resolve(challenge),
+            update: () => Promise.resolve({ affected: 1 }),
+          },
+        },
+        {
+          provide: CredentialService,
+          useValue: {
+            findById: () => Promise.resolve(credential),
+            verifyCredential: () =>
+              Promise.resolve({ valid: true, credential }),
+          },
+        },
+      ],
+    }).compile();
+
+    presentationService = module.get(PresentationService);
+  });
+
+  async function present(signer: ethers.Signer) {
+    const { presentation, message } = await presentationService.create({
+      holderDid: HOLDER,
+      credentialIds: ['urn:uuid:1'],
+      challenge: '0x01',
+      domain: DOMAIN,
+    });
+    presentation.proof.proofValue = await signer.signMessage(message);
+    return presentationService.verify(presentation);
+  }
+
+  it('should accept the holder signing with its own key', async () => {
+    await expect(present(identityKey)).resolves.toMatchObject({
+      valid: true,
+    });
+  });
+
+  it('should only accept the current controller of the holder DID', async () => {
+    controller = newOwnerKey.address.toLowerCase();
+
+    await expect(present(newOwnerKey)).resolves.toMatchObject({
+      valid: true,
+    });
+    await expect(present(identityKey)).resolves.toMatchObject({
+      valid: false,
+      checks: { holderSignature: false },
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import { PresentationChallenge } from '../../entities/PresentationChallenge';
+import { canonicalize } from '../../common/canonicalize';
+import { DidService } from '../did/did.service';
+import {
+  CredentialService,
+  CredentialVerificationResult,
+  VerifiableCredential,
+} from '../credential/credential.service';
+
+// W3C VC Data Model 1.1 compliant contexts
+const VP_CONTEXTS = [
+  'https://www.w3.org/2018/credentials/v1',
+  'https://w3id.org/security/suites/secp256k1-2019/v1',
+];
+
+export interface CreatePresentationDto {
+  holderDid: string;
+  credentialIds: string[];
+  challenge: string; // From POST /api/presentations/challenges
+  domain: string;
+}
+
+// W3C VC Data Model 1.1 compliant presentation
+export interface VerifiablePresentation {
+  '@context': string[];
+  type: string[];
+  holder: string;
+  verifiableCredential: VerifiableCredential[];
+  proof: PresentationProof;
+}
+
+// Holder's proof; challenge and domain bind it to a single verifier request
+interface PresentationProof {
+  type: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'authentication';
+  challenge: string;
+  domain: string;
+  proofValue?: string; // personal_sign over the presentation without it
+}
+
+export interface PresentationVerificationResult {
+  valid: boolean;
+  checks: {
+    holderSignature: boolean;
+    challenge: boolean;
+    credentials: boolean;
+    subjectsMatchHolder: boolean;
+  };
+  holder?: string;
+  credentials: CredentialVerificationResult[];
+  error?: string;
+}
+
+@Injectable()
+export class PresentationService {
+  private readonly logger = new Logger(PresentationService.name);
+  private readonly challengeTtl: number;
+
+  constructor(
+    @InjectRepository(PresentationChallenge)
+    private challengeRepository: Repository<PresentationChallenge>,
+    private configService: ConfigService,
+    private didService: DidService,
+    private credentialService: CredentialService,
+  ) {
+    this.challengeTtl = Number(
+      this.configService.get<number>('PRESENTATION_CHALLENGE_TTL', 300),
+    );
+  }
+
+  /**
+   * Hand out a one-time challenge for a presentation to the given domain
+   */
+  async createChallenge(domain: string): Promise<PresentationChallenge> {
+    return this.challengeRepository.save({
+      challenge: ethers.hexlify(ethers.randomBytes(32)),
+      domain,
+      expiresAt: new Date(Date.now() + this.challengeTtl * 1000),
+      usedAt: null,
+    });
+  }
+
+  /**
+   * Bundle the holder's credentials into an unsigned presentation.
+   * The holder signs `message` (personal_sign) and puts the signature
+   * into proof.proofValue before submitting it for verification.
+   */
+  async create(
+    dto: CreatePresentationDto,
+  ): Promise<{ presentation: VerifiablePresentation; message: string }> {
+    if (!dto.credentialIds?.length) {
+      throw new BadRequestException('At least one credential is required');
+    }
+
+    const holder = this.didService.toCanonicalDid(dto.holderDid);
+    const credentials = await Promise.all(
+      dto.credentialIds.map((id) => this.credentialService.findById(id)),
+    );
+
+    for (const credential of credentials) {
+      if (!this.isSameDid(credential.credentialSubject.id, holder)) {
+        throw new BadRequestException(
+          `Credential ${credential.id} was not issued to ${holder}`,
+        );
+      }
+    }
+
+    const presentation: VerifiablePresentation = {
+      '@context': VP_CONTEXTS,
+      type: ['VerifiablePresentation'],
+      holder,
+      verifiableCredential: credentials,
+      proof: {
+        type: 'EcdsaSecp256k1Signature2019',
+        created: new Date().toISOString(),
+        verificationMethod: `${holder}#controller`,
+        proofPurpose: 'authentication',
+        challenge: dto.challenge,
+        domain: dto.domain,
+      },
+    };
+
+    return { presentation, message: this.getSigningInput(presentation) };
+  }
+
+  /**
+   * Verify a presentation:
+   * - The holder signed it with one of their authentication methods
+   * - Its challenge was issued here for its domain, is unexpired and
+   *   unused; it is consumed once the presentation is accepted
+   * - Every embedded credential verifies and was issued to the holder
+   */
+  async verify(
+    presentation: VerifiablePresentation,
+  ): Promise<PresentationVerificationResult> {
+    const { proof, holder } = presentation;
+    const embedded = presentation.verifiableCredential ?? [];
+
+    if (!proof?.proofValue || !holder) {
+      return {
+        valid: false,
+        checks: {
+          holderSignature: false,
+          challenge: false,
+          credentials: false,
+          subjectsMatchHolder: false,
+        },
+        credentials: [],
+        error: 'Presentation must have a holder and a signed proof',
+      };
+    }
+
+    const holderSignature = await this.verifyHolderProof(presentation);
+
+    const challenge = await this.challengeRepository.findOne({
+      where: { challenge: proof.challenge ?? '' },
+    });
+    let challengeValid =
+      !!challenge &&
+      challenge.domain === proof.domain &&
+      !challenge.usedAt &&
+      challenge.expiresAt > new Date();
+
+    const credentials: CredentialVerificationResult[] = [];
+    let subjectsMatchHolder = embedded.length > 0;
+    for (const vc of embedded) {
+      const result = await this.credentialService.verifyCredential(vc);
+      credentials.push(result);
+
+      const subject = (result.credential ?? vc).credentialSubject?.id;
+      if (!subject || !this.isSameDid(subject, holder)) {
+        subjectsMatchHolder = false;
+      }
+    }
+    const credentialsValid =
+      credentials.length > 0 && credentials.every((result) => result.valid);
+
+    let valid =
+      holderSignature &&
+      challengeValid &&
+      credentialsValid &&
+      subjectsMatchHolder;
+
+    if (valid) {
+      // Another request may have used the same challenge in the meantime
+      const { affected } = await this.challengeRepository.update(
+        {
+          challenge: proof.challenge,
+          usedAt: IsNull(),
+          expiresAt: MoreThan(new Date()),
+        },
+        { usedAt: new Date() },
+      );
+      challengeValid = affected === 1;
+      valid = challengeValid;
+    }
+
+    return {
+      valid,
+      checks: {
+        holderSignature,
+        challenge: challengeValid,
+        credentials: credentialsValid,
+        subjectsMatchHolder,
+      },
+      holder,
+      credentials,
+    };
+  }
+
+  /**
+   * True if the proof was signed by the address behind the proof's
+   * verification method, and that method authenticates the holder
+   */
+  private async verifyHolderProof(
+    presentation: VerifiablePresentation,
+  ): Promise<boolean> {
+    const { proof } = presentation;
+
+    try {
+      const signer = ethers
+        .verifyMessage(
+          this.getSigningInput(presentation),
+          proof.proofValue ?? '',
+        )
+        .toLowerCase();
+
+      const didDocument = await this.didService.resolve(presentation.holder);
+      const authenticationIds = didDocument.authentication.map((method) =>
+        typeof method === 'string' ? method : method.id,
+      );
+
+      return didDocument.verificationMethod.some(
+        (vm) =>
+          vm.id === proof.verificationMethod &&
+          authenticationIds.includes(vm.id) &&
+          this.didService.getMethodAddress(vm) === signer,
+      );
+    } catch (error) {
+      this.logger.warn(`Holder proof verification failed: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * JCS-canonicalized presentation with the proof minus its proofValue
+   */
+  private getSigningInput(presentation: VerifiablePresentation): string {
+    const proofOptions: Partial<PresentationProof> = { ...presentation.proof };
+    delete proofOptions.proofValue;
+    return canonicalize({ ...presentation, proof: proofOptions });
+  }
+
+  private isSameDid(a: string, b: string): boolean {
+    try {
+      return (
+        this.didService.toCanonicalDid(a) === this.didService.toCanonicalDid(b)
+      );
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  PrepareRelayDto,
+  RelayerService,
+  RelayRequestDto,
+} from './relayer.service';
+import { AuthGuard, CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
+
+@Controller('api/relayer')
+export class RelayerController {
+  constructor(private readonly relayerService: RelayerService) {}
+
+  /**
+   * Get the hash an identity owner must sign for a meta-transaction
+   * POST /api/relayer/prepare
+   */
+  @Post('prepare')
+  async prepare(@Body() dto: PrepareRelayDto) {
+    return this.relayerService.prepare(dto);
+  }
+
+  /**
+   * Submit a signed meta-transaction through the relayer wallet, signed
+   * in as the identity, since the relayer pays the gas
+   * POST /api/relayer/transactions
+   */
+  @Post('transactions')
+  @UseGuards(AuthGuard)
+  async relay(@CurrentUser() user: AuthUser, @Body() dto: RelayRequestDto) {
+    if (!dto.signature) {
+      throw new BadRequestException('Signature is required.');
+    }
+    return this.relayerService.relay(dto, user.did);
+  }
+
+  /**
+   * Get the status of a relayed transaction
+   * GET /api/relayer/transactions/:id
+   */
+  @Get('transactions/:id')
+  async findById(@Param('id') id: string) {
+    return this.relayerService.findById(id);
+  }
+
+  /**
+   * Get relayed transactions of an identity
+   * GET /api/relayer/transactions?identity=did:ethr:0x...
+   */
+  @Get('transactions')
+  async findByIdentity(@Query('identity') identity: string) {
+    if (!identity) {
+      throw new BadRequestException('Identity is required.');
+    }
+    return this.relayerService.findByIdentity(identity);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RelayerController } from './relayer.controller';
+import { RelayerService } from './relayer.service';
+import { RelayTransaction } from '../../entities/RelayTransaction';
+import { EventModule } from '../event/event.module';
+import { NetworkModule } from '../network/network.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RelayTransaction]),
+    EventModule,
+    NetworkModule,
+    AuthModule,
+  ],
+  controllers: [RelayerController],
+  providers: [RelayerService],
+})
+export class RelayerModule {}
@@ -0,0 +1,354 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import {
+  RelayAction,
+  RelayStatus,
+  RelayTransaction,
+} from '../../entities/RelayTransaction';
+import { EventGateway } from '../event/event.gateway';
+import {
+  EthrDid,
+  NetworkConfig,
+  NetworkService,
+} from '../network/network.service';
+
+// EthereumDIDRegistry ABI (meta-transactions only)
+const DID_REGISTRY_ABI = [
+  'function identityOwner(address identity) view returns (address)',
+  'function nonce(address owner) view returns (uint256)',
+  'function changeOwnerSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, address newOwner)',
+  'function addDelegateSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes32 delegateType, address delegate, uint256 validity)',
+  'function revokeDelegateSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes32 delegateType, address delegate)',
+  'function setAttributeSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes32 name, bytes value, uint256 validity)',
+  'function revokeAttributeSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes32 name, bytes value)',
+];
+
+// Action arguments; names are plain strings, attribute values hex bytes
+export interface RelayParams {
+  newOwner?: string;
+  delegateType?: string; // e.g. "veriKey", encoded as bytes32
+  delegate?: string;
+  name?: string; // e.g. "did/svc/MessagingService", encoded as bytes32
+  value?: string; // 0x-prefixed attribute bytes
+  validity?: number | string; // Seconds
+}
+
+export interface PrepareRelayDto extends RelayParams {
+  identity: string; // DID or address
+  action: RelayAction;
+}
+
+export interface RelayRequestDto extends PrepareRelayDto {
+  signature: string; // Owner's signature over the hash returned by prepare
+}
+
+export interface PreparedRelay {
+  identity: string;
+  owner: string;
+  nonce: number;
+  hash: string; // Sign without a message prefix (eth_sign)
+}
+
+@Injectable()
+export class RelayerService implements OnModuleInit {
+  private readonly logger = new Logger(RelayerService.name);
+  private readonly privateKey?: string;
+  private readonly confirmations: number;
+
+  constructor(
+    @InjectRepository(RelayTransaction)
+    private relayRepository: Repository<RelayTransaction>,
+    private configService: ConfigService,
+    private networkService: NetworkService,
+    private eventGateway: EventGateway,
+  ) {
+    this.privateKey = this.configService.get<string>('RELAYER_PRIVATE_KEY');
+    this.confirmations = Math.max(
+      Number(this.configService.get<number>('CONFIRMATIONS', 0)),
+      1,
+    );
+  }
+
+  /**
+   * Keep tracking transactions that were submitted before a restart
+   */
+  async onModuleInit() {
+    const submitted = await this.relayRepository.find({
+      where: { status: RelayStatus.SUBMITTED },
+    });
+
+    for (const relay of submitted) {
+      const provider = this.networkService.getProvider(relay.chainId);
+      void this.trackConfirmation(
+        relay,
+        provider.waitForTransaction(relay.transactionHash!, this.confirmations),
+      );
+    }
+  }
+
+  /**
+   * Compute the hash the identity owner has to sign for an action,
+   * following the registry's format:
+   * keccak256(0x19 0x00 registry nonce[owner] identity "<action>" ...args)
+   */
+  async prepare(dto: PrepareRelayDto): Promise<PreparedRelay> {
+    const ethrDid = this.parseDid(dto.identity);
+    const { types, values } = this.encodeArgs(dto.action, dto);
+    const registry = this.getRegistry(ethrDid.network);
+
+    const owner = (
+      (await registry.identityOwner(ethrDid.address)) as string
+    ).toLowerCase();
+    const nonce = Number((await registry.nonce(owner)) as bigint);
+
+    const hash = ethers.solidityPackedKeccak256(
+      ['bytes1', 'bytes1', 'address', 'uint256', 'address', 'string', ...types],
+      [
+        '0x19',
+        '0x00',
+        ethrDid.network.registry,
+        nonce,
+        ethrDid.address,
+        dto.action,
+        ...values,
+      ],
+    );
+
+    return { identity: ethrDid.did, owner, nonce, hash };
+  }
+
+  /**
+   * Validate the owner's signature and submit the *Signed call from the
+   * relayer wallet. Confirmation is tracked in the background; status
+   * changes are broadcast as "relay:updated".
+   */
+  async relay(
+    dto: RelayRequestDto,
+    signedInDid: string,
+  ): Promise<RelayTransaction> {
+    const ethrDid = this.parseDid(dto.identity);
+    if (ethrDid.did !== signedInDid) {
+      throw new ForbiddenException(
+        `Signed in as ${signedInDid}, not as ${ethrDid.did}`,
+      );
+    }
+    const wallet = this.getWallet(ethrDid.network);
+    const prepared = await this.prepare(dto);
+
+    let signature: ethers.Signature;
+    let signer: string;
+    try {
+      signature = ethers.Signature.from(dto.signature);
+      signer = ethers.recoverAddress(prepared.hash, signature).toLowerCase();
+    } catch {
+      throw new BadRequestException('Invalid signature format');
+    }
+
+    if (signer !== prepared.owner) {
+      throw new BadRequestException(
+        'Signature does not match the identity owner',
+      );
+    }
+
+    const { values } = this.encodeArgs(dto.action, dto);
+    const relay = await this.relayRepository.save(
+      this.relayRepository.create({
+        chainId: ethrDid.network.chainId,
+        identity: ethrDid.address,
+        signer,
+        action: dto.action,
+        params: this.pickParams(dto),
+        nonce: prepared.nonce,
+        signature: dto.signature,
+        status: RelayStatus.PENDING,
+      }),
+    );
+
+    try {
+      const registry = this.getRegistry(ethrDid.network).connect(
+        wallet,
+      ) as ethers.Contract;
+      const tx = (await registry[`${dto.action}Signed`](
+        ethrDid.address,
+        signature.v,
+        signature.r,
+        signature.s,
+        ...values,
+      )) as ethers.ContractTransactionResponse;
+
+      relay.transactionHash = tx.hash;
+      relay.status = RelayStatus.SUBMITTED;
+      await this.saveAndBroadcast(relay);
+
+      this.logger.log(
+        `Relayed ${dto.action} for ${ethrDid.did} in ${tx.hash} (nonce ${prepared.nonce})`,
+      );
+      void this.trackConfirmation(relay, tx.wait(this.confirmations));
+    } catch (error) {
+      this.logger.error(`Failed to relay ${dto.action}:`, error);
+      relay.status = RelayStatus.FAILED;
+      relay.error = error instanceof Error ? error.message : String(error);
+      await this.saveAndBroadcast(relay);
+    }
+
+    return relay;
+  }
+
+  async findById(id: string): Promise<RelayTransaction> {
+    const relay = await this.relayRepository.findOne({ where: { id } });
+    if (!relay) {
+      throw new NotFoundException('Relay transaction not found');
+    }
+    return relay;
+  }
+
+  async findByIdentity(did: string): Promise<RelayTransaction[]> {
+    const ethrDid = this.parseDid(did);
+    return this.relayRepository.find({
+      where: { chainId: ethrDid.network.chainId, identity: ethrDid.address },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  private async trackConfirmation(
+    relay: RelayTransaction,
+    receiptPromise: Promise<ethers.TransactionReceipt | null>,
+  ) {
+    try {
+      const receipt = await receiptPromise;
+      if (receipt?.status === 1) {
+        relay.status = RelayStatus.CONFIRMED;
+        relay.blockNumber = receipt.blockNumber;
+      } else {
+        relay.status = RelayStatus.FAILED;
+        relay.error = 'Transaction reverted';
+      }
+    } catch (error) {
+      relay.status = RelayStatus.FAILED;
+      relay.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await this.saveAndBroadcast(relay);
+  }
+
+  private async saveAndBroadcast(relay: RelayTransaction) {
+    await this.relayRepository.save(relay);
+    this.eventGateway.broadcastRelayTransaction(relay);
+  }
+
+  /**
+   * Solidity types and values of the action-specific arguments, in the
+   * order used by both the signed hash and the *Signed function
+   */
+  private encodeArgs(
+    action: RelayAction,
+    params: RelayParams,
+  ): { types: string[]; values: unknown[] } {
+    const required = <K extends keyof RelayParams>(key: K) => {
+      const value = params[key];
+      if (value === undefined || value === null || value === '') {
+        throw new BadRequestException(`${key} is required for ${action}`);
+      }
+      return value as NonNullable<RelayParams[K]>;
+    };
+    const address = (key: 'newOwner' | 'delegate') => {
+      const value = required(key);
+      if (!ethers.isAddress(value)) {
+        throw new BadRequestException(`${key} must be an address`);
+      }
+      return value;
+    };
+    const bytes32 = (key: 'delegateType' | 'name') => {
+      try {
+        return ethers.encodeBytes32String(required(key));
+      } catch {
+        throw new BadRequestException(`${key} must fit in 32 bytes`);
+      }
+    };
+    const bytes = () => {
+      const value = required('value');
+      if (!ethers.isHexString(value)) {
+        throw new BadRequestException('value must be 0x-prefixed hex bytes');
+      }
+      return value;
+    };
+    const validity = () => {
+      const value = String(required('validity'));
+      if (!/^\d+$/.test(value) || BigInt(value) > ethers.MaxUint256) {
+        throw new BadRequestException(
+          'validity must be a non-negative integer number of seconds',
+        );
+      }
+      return BigInt(value);
+    };
+
+    switch (action) {
+      case RelayAction.CHANGE_OWNER:
+        return { types: ['address'], values: [address('newOwner')] };
+      case RelayAction.ADD_DELEGATE:
+        return {
+          types: ['bytes32', 'address', 'uint256'],
+          values: [bytes32('delegateType'), address('delegate'), validity()],
+        };
+      case RelayAction.REVOKE_DELEGATE:
+        return {
+          types: ['bytes32', 'address'],
+          values: [bytes32('delegateType'), address('delegate')],
+        };
+      case RelayAction.SET_ATTRIBUTE:
+        return {
+          types: ['bytes32', 'bytes', 'uint256'],
+          values: [bytes32('name'), bytes(), validity()],
+        };
+      case RelayAction.REVOKE_ATTRIBUTE:
+        return {
+          types: ['bytes32', 'bytes'],
+          values: [bytes32('name'), bytes()],
+        };
+      default:
+        throw new BadRequestException(`Unsupported action: ${String(action)}`);
+    }
+  }
+
+  private pickParams(params: RelayParams): Record<string, unknown> {
+    const { newOwner, delegateType, delegate, name, value, validity } = params;
+    return { newOwner, delegateType, delegate, name, value, validity };
+  }
+
+  private parseDid(did: string): EthrDid {
+    const ethrDid = this.networkService.parseEthrDid(did);
+    if (!ethrDid) {
+      throw new BadRequestException(`Invalid DID or unknown network: ${did}`);
+    }
+    return ethrDid;
+  }
+
+  private getRegistry(network: NetworkConfig): ethers.Contract {
+    return new ethers.Contract(
+      network.registry,
+      DID_REGISTRY_ABI,
+      this.networkService.getProvider(network.chainId),
+    );
+  }
+
+  private getWallet(network: NetworkConfig): ethers.Wallet {
+    if (!this.privateKey) {
+      throw new ServiceUnavailableException('Relayer is not configured');
+    }
+    return new ethers.Wallet(
+      this.privateKey,
+      this.networkService.getProvider(network.chainId),
+    );
+  }
+}
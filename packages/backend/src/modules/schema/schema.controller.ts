@@ -0,0 +1,39 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { PublishSchemaDto, SchemaService } from './schema.service';
+
+@Controller('api/schemas')
+export class SchemaController {
+  constructor(private readonly schemaService: SchemaService) {}
+
+  /**
+   * Publish a credential schema version. The body is signed by its
+   * author, so no session is needed.
+   * POST /api/schemas
+   */
+  @Post()
+  async publish(@Body() dto: PublishSchemaDto) {
+    return this.schemaService.publish(dto);
+  }
+
+  /**
+   * List published schemas
+   * GET /api/schemas?author=did:ethr:0x...&name=...
+   */
+  @Get()
+  async findAll(
+    @Query('author') author?: string,
+    @Query('name') name?: string,
+  ) {
+    return this.schemaService.findAll({ author, name });
+  }
+
+  /**
+   * Get a schema as a JSON Schema document (what credentialSchema.id
+   * points to)
+   * GET /api/schemas/:id
+   */
+  @Get(':id')
+  async getJsonSchema(@Param('id') id: string) {
+    return this.schemaService.getJsonSchema(id);
+  }
+}
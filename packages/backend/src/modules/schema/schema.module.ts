@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SchemaController } from './schema.controller';
+import { SchemaService } from './schema.service';
+import { CredentialSchema } from '../../entities/CredentialSchema';
+import { DidModule } from '../did/did.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CredentialSchema]), DidModule],
+  controllers: [SchemaController],
+  providers: [SchemaService],
+  exports: [SchemaService],
+})
+export class SchemaModule {}
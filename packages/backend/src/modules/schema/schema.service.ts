@@ -0,0 +1,229 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { CredentialSchema } from '../../entities/CredentialSchema';
+import { canonicalize } from '../../common/canonicalize';
+import { DidService } from '../did/did.service';
+
+// VC Data Model 1.1 credentialSchema type for JSON Schema validation
+export const CREDENTIAL_SCHEMA_TYPE = 'JsonSchemaValidator2018';
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/;
+
+export interface PublishSchemaDto {
+  author: string; // Publisher DID
+  name: string;
+  version: string; // Semantic version; each version can be published once
+  description?: string;
+  schema: Record<string, unknown>; // JSON Schema of the claims object
+  signature: string; // personal_sign over the JCS-canonicalized dto without it
+}
+
+// credentialSchema of a credential whose claims match a published schema
+export interface CredentialSchemaReference {
+  id: string;
+  type: string;
+}
+
+@Injectable()
+export class SchemaService {
+  private readonly apiBaseUrl: string;
+  private readonly ajv = addFormats(
+    new Ajv({ allErrors: true, strict: false }),
+  );
+  private readonly validators = new Map<string, ValidateFunction>();
+
+  constructor(
+    @InjectRepository(CredentialSchema)
+    private schemaRepository: Repository<CredentialSchema>,
+    private configService: ConfigService,
+    private didService: DidService,
+  ) {
+    this.apiBaseUrl = this.configService.get<string>(
+      'API_BASE_URL',
+      'http://localhost:3001',
+    );
+  }
+
+  /**
+   * Publish a new schema version, signed by the author DID's owner or a
+   * sigAuth delegate
+   */
+  async publish(dto: PublishSchemaDto): Promise<CredentialSchema> {
+    if (!dto.name || !dto.schema || typeof dto.schema !== 'object') {
+      throw new BadRequestException('Name and schema are required');
+    }
+    if (!SEMVER_PATTERN.test(dto.version ?? '')) {
+      throw new BadRequestException(
+        'Version must be a semantic version (e.g. 1.0.0)',
+      );
+    }
+    if (dto.schema.type !== 'object') {
+      throw new BadRequestException('Schema must describe a claims object');
+    }
+    try {
+      this.compile(dto.schema);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid JSON Schema: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const author = this.didService.toCanonicalDid(dto.author);
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(
+        canonicalize({
+          author: dto.author,
+          name: dto.name,
+          version: dto.version,
+          description: dto.description,
+          schema: dto.schema,
+        }),
+        dto.signature,
+      );
+    } catch {
+      throw new BadRequestException('Invalid signature format');
+    }
+    if (!(await this.didService.canAuthenticate(author, signer))) {
+      throw new BadRequestException(
+        "Schema must be signed by the author DID's owner or a sigAuth delegate",
+      );
+    }
+
+    if (
+      await this.schemaRepository.exists({
+        where: { author, name: dto.name, version: dto.version },
+      })
+    ) {
+      throw new BadRequestException(
+        `${dto.name} ${dto.version} is already published; publish a new version instead`,
+      );
+    }
+
+    return this.schemaRepository.save({
+      author,
+      name: dto.name,
+      version: dto.version,
+      description: dto.description ?? null,
+      schema: dto.schema,
+      signature: dto.signature,
+    });
+  }
+
+  /**
+   * Published schemas, newest first, optionally by author and/or name,
+   * each with the credentialSchema that credentials using it carry
+   */
+  async findAll(filter: {
+    author?: string;
+    name?: string;
+  }): Promise<
+    (CredentialSchema & { credentialSchema: CredentialSchemaReference })[]
+  > {
+    const where: FindOptionsWhere<CredentialSchema> = {};
+    if (filter.author) {
+      where.author = this.didService.toCanonicalDid(filter.author);
+    }
+    if (filter.name) {
+      where.name = filter.name;
+    }
+
+    const schemas = await this.schemaRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+    });
+
+    return schemas.map((schema) => ({
+      ...schema,
+      credentialSchema: this.toReference(schema.id),
+    }));
+  }
+
+  async findById(id: string): Promise<CredentialSchema> {
+    const schema = await this.schemaRepository.findOne({ where: { id } });
+
+    if (!schema) {
+      throw new NotFoundException('Credential schema not found');
+    }
+
+    return schema;
+  }
+
+  /**
+   * The schema as the JSON Schema document its credentialSchema id
+   * dereferences to
+   */
+  async getJsonSchema(id: string): Promise<Record<string, unknown>> {
+    const published = await this.findById(id);
+
+    return {
+      title: published.name,
+      ...(published.description && { description: published.description }),
+      ...published.schema,
+      $id: this.getSchemaUrl(published.id),
+    };
+  }
+
+  /**
+   * Check claims against a published schema, given by id or URL, and
+   * return the credentialSchema reference for the credential
+   */
+  async validateClaims(
+    schemaIdOrUrl: string,
+    claims: Record<string, unknown>,
+  ): Promise<CredentialSchemaReference> {
+    const baseUrl = this.getSchemaUrl('');
+    const id = schemaIdOrUrl.startsWith(baseUrl)
+      ? schemaIdOrUrl.slice(baseUrl.length)
+      : schemaIdOrUrl;
+    if (id.includes('/')) {
+      throw new BadRequestException(
+        `Unknown credential schema: ${schemaIdOrUrl}`,
+      );
+    }
+
+    const published = await this.findById(id);
+
+    let validate = this.validators.get(published.id);
+    if (!validate) {
+      validate = this.compile(published.schema);
+      this.validators.set(published.id, validate);
+    }
+
+    if (!validate(claims)) {
+      throw new BadRequestException(
+        `Claims do not match ${published.name} ${published.version}: ` +
+          this.ajv.errorsText(validate.errors, { dataVar: 'claims' }),
+      );
+    }
+
+    return this.toReference(published.id);
+  }
+
+  /**
+   * Compile without the schema's own $id, which Ajv would register and
+   * refuse to see again from another published schema
+   */
+  private compile(schema: Record<string, unknown>): ValidateFunction {
+    const anonymous = { ...schema };
+    delete anonymous.$id;
+    return this.ajv.compile(anonymous);
+  }
+
+  private toReference(id: string): CredentialSchemaReference {
+    return { id: this.getSchemaUrl(id), type: CREDENTIAL_SCHEMA_TYPE };
+  }
+
+  private getSchemaUrl(id: string): string {
+    return `${this.apiBaseUrl}/api/schemas/${id}`;
+  }
+}
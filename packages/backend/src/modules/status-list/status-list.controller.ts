@@ -0,0 +1,26 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { StatusListService } from './status-list.service';
+
+@Controller('api/status-lists')
+export class StatusListController {
+  constructor(private readonly statusListService: StatusListService) {}
+
+  /**
+   * Get the address issuers add as a veriKey delegate to have their
+   * status lists signed
+   * GET /api/status-lists/signer
+   */
+  @Get('signer')
+  getSigner() {
+    return { address: this.statusListService.getSignerAddress() };
+  }
+
+  /**
+   * Get a signed StatusList2021Credential
+   * GET /api/status-lists/:id
+   */
+  @Get(':id')
+  async getCredential(@Param('id') id: string) {
+    return this.statusListService.getCredential(id);
+  }
+}
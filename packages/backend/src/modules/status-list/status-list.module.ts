@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StatusListController } from './status-list.controller';
+import { StatusListService } from './status-list.service';
+import { StatusList } from '../../entities/StatusList';
+import { DidModule } from '../did/did.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([StatusList]), DidModule],
+  controllers: [StatusListController],
+  providers: [StatusListService],
+  exports: [StatusListService],
+})
+export class StatusListModule {}
@@ -0,0 +1,131 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, ServiceUnavailableException } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { gunzipSync } from 'zlib';
+import { StatusListService } from './status-list.service';
+import { DidService } from '../did/did.service';
+import { StatusList, StatusPurpose } from '../../entities/StatusList';
+import { canonicalize } from '../../common/canonicalize';
+
+const signer = ethers.Wallet.createRandom();
+const ISSUER = `did:ethr:${ethers.Wallet.createRandom().address.toLowerCase()}`;
+const DELEGATE_ID = `${ISSUER}#delegate-12-0`;
+
+describe('StatusListService', () => {
+  let list: StatusList;
+
+  async function createService(
+    config: Record<string, string>,
+    delegate = signer.address.toLowerCase(),
+  ) {
+    const repository = {
+      findOne: () => Promise.resolve(list),
+      save: (entity: StatusList) => Promise.resolve(entity),
+    };
+    const module = await Test.createTestingModule({
+      providers: [
+        StatusListService,
+        { provide: ConfigService, useValue: new ConfigService(config) },
+        {
+          provide: getRepositoryToken(StatusList),
+          useValue: {
+            ...repository,
+            manager: {
+              transaction: (
+                run: (manager: { getRepository: () => unknown }) => unknown,
+              ) => run({ getRepository: () => repository }),
+            },
+          },
+        },
+        {
+          provide: DidService,
+          useValue: {
+            resolve: () =>
+              Promise.resolve({
+                id: ISSUER,
+                verificationMethod: [{ id: DELEGATE_ID }],
+                assertionMethod: [DELEGATE_ID],
+              }),
+            getMethodAddress: () => delegate,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get(StatusListService);
+  }
+
+  beforeEach(() => {
+    list = {
+      id: 'list-1',
+      issuer: ISSUER,
+      purpose: StatusPurpose.REVOCATION,
+      size: 131072,
+      bitstring: Buffer.alloc(16384),
+      allocated: Buffer.alloc(16384),
+      allocatedCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+    };
+  });
+
+  it('should set bits from the high bit of the first byte', async () => {
+    const service = await createService({
+      STATUS_LIST_PRIVATE_KEY: signer.privateKey,
+    });
+
+    await service.setStatus(list.id, 0, true);
+    await service.setStatus(list.id, 9, true);
+    await service.setStatus(list.id, 131071, true);
+
+    expect(list.bitstring[0]).toBe(0x80);
+    expect(list.bitstring[1]).toBe(0x40);
+    expect(list.bitstring[16383]).toBe(0x01);
+
+    await service.setStatus(list.id, 0, false);
+    expect(list.bitstring[0]).toBe(0x00);
+  });
+
+  it('should issue the list under the issuer DID with a gzip+base64url encodedList', async () => {
+    const service = await createService({
+      STATUS_LIST_PRIVATE_KEY: signer.privateKey,
+    });
+    await service.setStatus(list.id, 3, true);
+
+    const { proof, ...credential } = await service.getCredential(list.id);
+
+    expect(credential.issuer).toBe(ISSUER);
+    const bitstring = gunzipSync(
+      Buffer.from(credential.credentialSubject.encodedList, 'base64url'),
+    );
+    expect(bitstring).toHaveLength(16384);
+    expect(bitstring[0]).toBe(0x10);
+    expect(bitstring.subarray(1).every((byte) => byte === 0)).toBe(true);
+
+    expect(proof.verificationMethod).toBe(DELEGATE_ID);
+    expect(
+      ethers.verifyMessage(canonicalize(credential), proof.proofValue),
+    ).toBe(signer.address);
+  });
+
+  it('should refuse to sign for an issuer that has not delegated to the signer', async () => {
+    const service = await createService(
+      { STATUS_LIST_PRIVATE_KEY: signer.privateKey },
+      ethers.Wallet.createRandom().address.toLowerCase(),
+    );
+
+    await expect(service.getCredential(list.id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should disable status lists without a key', async () => {
+    const service = await createService({});
+
+    await expect(service.getCredential(list.id)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+  });
+});
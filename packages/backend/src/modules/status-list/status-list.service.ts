@@ -0,0 +1,308 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import { gzipSync } from 'zlib';
+import { randomInt } from 'crypto';
+import { StatusList, StatusPurpose } from '../../entities/StatusList';
+import { canonicalize } from '../../common/canonicalize';
+import { DidService } from '../did/did.service';
+
+// W3C StatusList2021 contexts
+const STATUS_LIST_CONTEXTS = [
+  'https://www.w3.org/2018/credentials/v1',
+  'https://w3id.org/vc/status-list/2021/v1',
+];
+
+// 16KB uncompressed, the minimum the spec recommends for herd privacy
+const STATUS_LIST_SIZE = 131072;
+
+// credentialStatus of a credential with a status list entry
+export interface StatusListEntry {
+  id: string;
+  type: 'StatusList2021Entry';
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface StatusListCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  issuanceDate: string;
+  credentialSubject: {
+    id: string;
+    type: 'StatusList2021';
+    statusPurpose: StatusPurpose;
+    encodedList: string; // base64url(gzip(bitstring))
+  };
+  proof: {
+    type: string;
+    created: string;
+    verificationMethod: string;
+    proofPurpose: string;
+    proofValue: string;
+  };
+}
+
+@Injectable()
+export class StatusListService {
+  private readonly logger = new Logger(StatusListService.name);
+  private readonly apiBaseUrl: string;
+  private readonly signer?: ethers.Wallet;
+
+  constructor(
+    @InjectRepository(StatusList)
+    private statusListRepository: Repository<StatusList>,
+    private configService: ConfigService,
+    private didService: DidService,
+  ) {
+    this.apiBaseUrl = this.configService.get<string>(
+      'API_BASE_URL',
+      'http://localhost:3001',
+    );
+
+    const privateKey = this.configService.get<string>(
+      'STATUS_LIST_PRIVATE_KEY',
+    );
+    if (privateKey) {
+      this.signer = new ethers.Wallet(privateKey);
+      this.logger.log(`Status list signer: ${this.signer.address}`);
+    } else {
+      this.logger.warn(
+        'STATUS_LIST_PRIVATE_KEY is not set; status list credentials are disabled',
+      );
+    }
+  }
+
+  /**
+   * Address of the key that signs status lists. Issuers add it as a
+   * veriKey delegate so it can sign their lists.
+   */
+  getSignerAddress(): string {
+    return this.getSigner().address.toLowerCase();
+  }
+
+  /**
+   * Allocate a random free entry in the issuer's status list for a
+   * purpose, starting a new list once the current one is full. Random
+   * indices keep the list from revealing the order of issuance.
+   */
+  async allocate(
+    issuer: string,
+    purpose: StatusPurpose,
+  ): Promise<{ listId: string; index: number }> {
+    return this.statusListRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(StatusList);
+
+      let list = await repository
+        .createQueryBuilder('list')
+        .setLock('pessimistic_write')
+        .where('list.issuer = :issuer', { issuer })
+        .andWhere('list.purpose = :purpose', { purpose })
+        .andWhere('list.allocatedCount < list.size')
+        .orderBy('list.createdAt', 'ASC')
+        .getOne();
+
+      if (!list) {
+        list = repository.create({
+          issuer,
+          purpose,
+          size: STATUS_LIST_SIZE,
+          bitstring: Buffer.alloc(STATUS_LIST_SIZE / 8),
+          allocated: Buffer.alloc(STATUS_LIST_SIZE / 8),
+          allocatedCount: 0,
+        });
+      }
+
+      // Take the first free entry from a random starting point
+      let index = randomInt(list.size);
+      while (getBit(list.allocated, index)) {
+        index = (index + 1) % list.size;
+      }
+      setBit(list.allocated, index, true);
+      list.allocatedCount += 1;
+      await repository.save(list);
+
+      return { listId: list.id, index };
+    });
+  }
+
+  /**
+   * Look up the list entry a credentialStatus entry points at, checking
+   * that it was allocated to the issuer for the purpose
+   */
+  async resolveEntry(
+    entry: Partial<StatusListEntry>,
+    issuer: string,
+    purpose: StatusPurpose,
+  ): Promise<{ listId: string; index: number }> {
+    const prefix = this.getListUrl('');
+    const listId = entry.statusListCredential?.startsWith(prefix)
+      ? entry.statusListCredential.slice(prefix.length)
+      : undefined;
+    const index = Number(entry.statusListIndex);
+
+    const list = listId
+      ? await this.statusListRepository.findOne({ where: { id: listId } })
+      : null;
+
+    if (
+      !list ||
+      entry.type !== 'StatusList2021Entry' ||
+      entry.statusPurpose !== purpose ||
+      list.issuer !== issuer ||
+      list.purpose !== purpose ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= list.size ||
+      !getBit(list.allocated, index)
+    ) {
+      throw new BadRequestException(
+        `credentialStatus has no ${purpose} entry reserved for the issuer`,
+      );
+    }
+
+    return { listId: list.id, index };
+  }
+
+  /**
+   * Set (true) or clear (false) an entry's bit
+   */
+  async setStatus(listId: string, index: number, value: boolean) {
+    await this.statusListRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(StatusList);
+      const list = await repository.findOne({
+        where: { id: listId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!list || index < 0 || index >= list.size) {
+        throw new NotFoundException('Status list entry not found');
+      }
+
+      setBit(list.bitstring, index, value);
+      await repository.save(list);
+    });
+  }
+
+  /**
+   * credentialStatus entry pointing at a bit of a status list
+   */
+  toEntry(
+    listId: string,
+    index: number,
+    purpose: StatusPurpose,
+  ): StatusListEntry {
+    const statusListCredential = this.getListUrl(listId);
+
+    return {
+      id: `${statusListCredential}#${index}`,
+      type: 'StatusList2021Entry',
+      statusPurpose: purpose,
+      statusListIndex: String(index),
+      statusListCredential,
+    };
+  }
+
+  /**
+   * The status list as a StatusList2021Credential issued by the DID that
+   * issued the credentials in it. The status list key signs it (personal_sign
+   * over the JCS-canonicalized credential) as one of that DID's assertion
+   * methods, so verifiers check it like any credential of the issuer.
+   */
+  async getCredential(listId: string): Promise<StatusListCredential> {
+    const signer = this.getSigner();
+    const list = await this.statusListRepository.findOne({
+      where: { id: listId },
+    });
+
+    if (!list) {
+      throw new NotFoundException('Status list not found');
+    }
+
+    const verificationMethod = await this.findVerificationMethod(list.issuer);
+    const url = this.getListUrl(list.id);
+    const issuanceDate = list.updatedAt.toISOString();
+
+    const payload = {
+      '@context': STATUS_LIST_CONTEXTS,
+      id: url,
+      type: ['VerifiableCredential', 'StatusList2021Credential'],
+      issuer: list.issuer,
+      issuanceDate,
+      credentialSubject: {
+        id: `${url}#list`,
+        type: 'StatusList2021' as const,
+        statusPurpose: list.purpose,
+        encodedList: gzipSync(list.bitstring).toString('base64url'),
+      },
+    };
+
+    return {
+      ...payload,
+      proof: {
+        type: 'EcdsaSecp256k1Signature2019',
+        created: issuanceDate,
+        verificationMethod,
+        proofPurpose: 'assertionMethod',
+        proofValue: await signer.signMessage(canonicalize(payload)),
+      },
+    };
+  }
+
+  /**
+   * The issuer's assertion method controlled by the status list key
+   */
+  private async findVerificationMethod(issuer: string): Promise<string> {
+    const didDocument = await this.didService.resolve(issuer);
+    const assertionIds = didDocument.assertionMethod.map((method) =>
+      typeof method === 'string' ? method : method.id,
+    );
+    const method = didDocument.verificationMethod.find(
+      (vm) =>
+        assertionIds.includes(vm.id) &&
+        this.didService.getMethodAddress(vm) === this.getSignerAddress(),
+    );
+
+    if (!method) {
+      throw new NotFoundException(
+        `Status list signer ${this.getSignerAddress()} is not a veriKey delegate of ${issuer}`,
+      );
+    }
+    return method.id;
+  }
+
+  private getSigner(): ethers.Wallet {
+    if (!this.signer) {
+      throw new ServiceUnavailableException(
+        'Status lists are disabled: STATUS_LIST_PRIVATE_KEY is not set',
+      );
+    }
+    return this.signer;
+  }
+
+  private getListUrl(listId: string): string {
+    return `${this.apiBaseUrl}/api/status-lists/${listId}`;
+  }
+}
+
+// Bit 0 is the first byte's high bit, as StatusList2021 lays out the list
+function getBit(bitstring: Buffer, index: number): boolean {
+  return (bitstring[Math.floor(index / 8)] & (0x80 >> (index % 8))) !== 0;
+}
+
+function setBit(bitstring: Buffer, index: number, value: boolean) {
+  const mask = 0x80 >> (index % 8);
+  const byte = Math.floor(index / 8);
+  bitstring[byte] = value ? bitstring[byte] | mask : bitstring[byte] & ~mask;
+}
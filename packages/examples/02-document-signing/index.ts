@@ -15,6 +15,7 @@ import {
   getSigner,
   getContract,
 } from "../common/config.js";
+import { canonicalize } from "../common/canonicalize.js";
 
 // ========================================
 // Types
@@ -44,7 +45,7 @@ async function signDocument(
   document: SignedDocument["document"],
   signer: ethers.Wallet
 ): Promise<SignedDocument> {
-  const documentString = JSON.stringify(document, Object.keys(document).sort());
+  const documentString = canonicalize(document);
   const signature = await signer.signMessage(documentString);
 
   return {
@@ -82,10 +83,7 @@ async function verifySignature(
   const { document, signature } = signedDocument;
 
   try {
-    const documentString = JSON.stringify(
-      document,
-      Object.keys(document).sort()
-    );
+    const documentString = canonicalize(document);
 
     const recoveredAddress = ethers.verifyMessage(
       documentString,
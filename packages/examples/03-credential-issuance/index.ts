@@ -18,6 +18,7 @@ import {
   getSigner,
   getContract,
 } from "../common/config.js";
+import { canonicalize } from "../common/canonicalize.js";
 
 // ========================================
 // Types
@@ -95,7 +96,7 @@ async function issueCredential(
     },
   };
 
-  const message = JSON.stringify(credentialPayload);
+  const message = canonicalize(credentialPayload);
   const signature = await issuer.signMessage(message);
 
   const proof: CredentialProof = {
@@ -139,7 +140,7 @@ async function verifyCredential(
       credentialSubject: vc.credentialSubject,
     };
 
-    const message = JSON.stringify(credentialPayload);
+    const message = canonicalize(credentialPayload);
 
     // 2. 서명에서 주소 복원
     const recoveredAddress = ethers.verifyMessage(message, vc.proof.proofValue);
@@ -17,6 +17,7 @@ import {
   getSigner,
   getContract,
 } from "../common/config.js";
+import { canonicalize } from "../common/canonicalize.js";
 
 // ========================================
 // Types
@@ -100,7 +101,7 @@ async function signAsDelegate(
   identityDid: string,
   delegateType: string
 ): Promise<SignedDocument> {
-  const documentString = JSON.stringify(document, Object.keys(document).sort());
+  const documentString = canonicalize(document);
   const signature = await delegate.signMessage(documentString);
 
   return {
@@ -127,10 +128,7 @@ async function verifyDelegateSignature(
   const { document, signature } = signedDocument;
 
   try {
-    const documentString = JSON.stringify(
-      document,
-      Object.keys(document).sort()
-    );
+    const documentString = canonicalize(document);
 
     const recoveredAddress = ethers.verifyMessage(
       documentString,
@@ -18,6 +18,7 @@ import {
   getSigner,
   getContract,
 } from "../common/config.js";
+import { canonicalize } from "../common/canonicalize.js";
 
 // ========================================
 // Types
@@ -85,30 +86,27 @@ function isRevoked(credentialId: string): {
 // On-Chain Revocation (Using setAttribute)
 // ========================================
 
+// 백엔드와 동일한 형식: did/revoked 속성의 값은 VC ID의 keccak256 해시
+// (VC ID를 블록체인에 공개하지 않음, 백엔드 인덱서가 자동으로 폐기 반영)
+const REVOCATION_ATTRIBUTE = "did/revoked";
+const REVOCATION_VALIDITY = 100 * 365 * 24 * 60 * 60;
+
+function getRevocationHash(credentialId: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(credentialId));
+}
+
 async function revokeCredentialOnChain(
   issuer: ethers.Wallet,
-  credentialId: string,
-  reason: string
+  credentialId: string
 ): Promise<ethers.ContractTransactionReceipt | null> {
   const contract = getContract(issuer);
 
-  // Attribute name: did/revoked/{credentialId}
-  const attrName = ethers.encodeBytes32String("did/revoked");
-  const attrValue = ethers.toUtf8Bytes(
-    JSON.stringify({
-      credentialId,
-      reason,
-      revokedAt: new Date().toISOString(),
-    })
-  );
-
-  // validTo = 0으로 설정하면 즉시 만료 (폐기 표시)
-  // 여기서는 1초로 설정하여 기록만 남김
+  // 사유는 off-chain에 보관하고, 블록체인에는 해시만 기록
   const tx = await contract.setAttribute(
     issuer.address,
-    attrName,
-    attrValue,
-    1 // 1초 후 만료 (폐기 기록용)
+    ethers.encodeBytes32String(REVOCATION_ATTRIBUTE),
+    getRevocationHash(credentialId),
+    REVOCATION_VALIDITY
   );
 
   return await tx.wait();
@@ -116,27 +114,24 @@ async function revokeCredentialOnChain(
 
 async function checkOnChainRevocation(
   issuerAddress: string
-): Promise<{ credentialId: string; reason: string; revokedAt: string }[]> {
+): Promise<{ credentialHash: string; blockNumber: number }[]> {
   const contract = getContract();
 
   // DIDAttributeChanged 이벤트 조회
   const filter = contract.filters.DIDAttributeChanged(issuerAddress);
   const events = await contract.queryFilter(filter, 0, "latest");
 
-  const revocations: {
-    credentialId: string;
-    reason: string;
-    revokedAt: string;
-  }[] = [];
+  const revocations: { credentialHash: string; blockNumber: number }[] = [];
 
   for (const event of events) {
     if ("args" in event && event.args) {
       try {
         const name = ethers.decodeBytes32String(event.args[1]);
-        if (name === "did/revoked") {
-          const value = ethers.toUtf8String(event.args[2]);
-          const data = JSON.parse(value);
-          revocations.push(data);
+        if (name === REVOCATION_ATTRIBUTE) {
+          revocations.push({
+            credentialHash: ethers.hexlify(event.args[2]),
+            blockNumber: event.blockNumber,
+          });
         }
       } catch {
         // 파싱 실패 무시
@@ -175,7 +170,7 @@ async function issueCredential(
     },
   };
 
-  const message = JSON.stringify(credentialPayload);
+  const message = canonicalize(credentialPayload);
   const signature = await issuer.signMessage(message);
 
   return {
@@ -224,7 +219,7 @@ async function verifyCredentialWithRevocation(
     credentialStatus: vc.credentialStatus,
   };
 
-  const message = JSON.stringify(credentialPayload);
+  const message = canonicalize(credentialPayload);
   let signatureValid = false;
 
   try {
@@ -257,10 +252,15 @@ async function verifyCredentialWithRevocation(
     try {
       const issuerAddress = didToAddress(vc.issuer);
       const onChainRevocations = await checkOnChainRevocation(issuerAddress);
-      const found = onChainRevocations.find((r) => r.credentialId === vc.id);
+      const found = onChainRevocations.find(
+        (r) => r.credentialHash === getRevocationHash(vc.id)
+      );
       if (found) {
         notRevoked = false;
-        revocationInfo = { revokedAt: found.revokedAt, reason: found.reason };
+        revocationInfo = {
+          revokedAt: `블록 #${found.blockNumber}`,
+          reason: "On-chain 폐기 기록",
+        };
       }
     } catch {
       // 블록체인 조회 실패 시 무시
@@ -391,11 +391,7 @@ async function main() {
   logStep(4, "블록체인에 폐기 기록 저장");
 
   try {
-    const receipt = await revokeCredentialOnChain(
-      issuer,
-      licenseVc.id,
-      "의료법 제66조 위반 - 면허 취소"
-    );
+    const receipt = await revokeCredentialOnChain(issuer, licenseVc.id);
 
     logSuccess(`블록체인 기록 완료! 블록: ${receipt?.blockNumber}`);
 
@@ -512,9 +508,10 @@ async function main() {
 
     console.log(`\n📋 대한의사협회의 폐기 기록 (${revocations.length}건):`);
     for (const rev of revocations) {
-      console.log(`\n   📜 VC ID: ${rev.credentialId.substring(0, 30)}...`);
-      console.log(`      폐기 일시: ${rev.revokedAt}`);
-      console.log(`      폐기 사유: ${rev.reason}`);
+      const isLicense = rev.credentialHash === getRevocationHash(licenseVc.id);
+      console.log(`\n   📜 VC 해시: ${rev.credentialHash.substring(0, 30)}...`);
+      console.log(`      폐기 블록: #${rev.blockNumber}`);
+      if (isLicense) console.log(`      → 김의사 면허 VC`);
     }
 
     logSuccess("블록체인에서 폐기 기록이 영구 보존됩니다!");
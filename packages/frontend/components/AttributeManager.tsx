@@ -65,6 +65,9 @@ export function AttributeManager() {
             <option value={ATTRIBUTE_NAMES.PUBLIC_KEY_SECP256K1}>
               Public Key (Secp256k1)
             </option>
+            <option value={ATTRIBUTE_NAMES.KEY_AGREEMENT_X25519}>
+              Key Agreement Key (X25519)
+            </option>
             <option value={ATTRIBUTE_NAMES.SERVICE_ENDPOINT}>
               Service Endpoint
             </option>
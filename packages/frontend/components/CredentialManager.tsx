@@ -1,14 +1,24 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { useAccount, useSignMessage } from "wagmi";
+import { useAccount, useSignMessage, useSignTypedData } from "wagmi";
 import { isAddress } from "viem";
 import {
   credentialApi,
-  createCredentialMessage,
+  createCredentialTypedData,
+  createStatusChangeMessage,
+  EIP712_PROOF_TYPE,
+  StatusChangeAction,
   VerifiableCredential,
   VerifyResult,
 } from "@/lib/credential-api";
+import { useAnchorRevocation } from "@/lib/hooks";
+import { authApi, createSiweMessage, getSession } from "@/lib/auth-api";
+import {
+  presentationApi,
+  PresentationVerifyResult,
+} from "@/lib/presentation-api";
+import { CredentialSchema, schemaApi, toClaimValue } from "@/lib/schema-api";
 
 // Preset credential types
 const CREDENTIAL_TYPES = [
@@ -19,12 +29,22 @@ const CREDENTIAL_TYPES = [
   { value: "AchievementCredential", label: "업적/성과" },
 ];
 
+const STATUS_CHANGE_LABELS: Record<StatusChangeAction, string> = {
+  Revoke: "폐기",
+  Suspend: "정지",
+  Unsuspend: "재개",
+};
+
 export function CredentialManager() {
   const { address } = useAccount();
   const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { anchorRevocation } = useAnchorRevocation();
 
   // State
-  const [activeTab, setActiveTab] = useState<"issue" | "my" | "verify">("my");
+  const [activeTab, setActiveTab] = useState<
+    "issue" | "my" | "present" | "verify"
+  >("my");
   const [issuedCredentials, setIssuedCredentials] = useState<
     VerifiableCredential[]
   >([]);
@@ -37,6 +57,7 @@ export function CredentialManager() {
 
   // Issue form state
   const [subjectDid, setSubjectDid] = useState("");
+  const [issuerDid, setIssuerDid] = useState(""); // Set when issuing as a delegate
   const [credentialType, setCredentialType] = useState(
     CREDENTIAL_TYPES[0].value
   );
@@ -44,10 +65,23 @@ export function CredentialManager() {
   const [claimValue, setClaimValue] = useState("");
   const [claims, setClaims] = useState<Record<string, string>>({});
   const [expirationDays, setExpirationDays] = useState("365");
+  const [schemas, setSchemas] = useState<CredentialSchema[]>([]);
+  const [schemaId, setSchemaId] = useState(""); // Empty for free-form claims
+  const [schemaInputs, setSchemaInputs] = useState<
+    Record<string, string | boolean>
+  >({});
+  const selectedSchema = schemas.find((schema) => schema.id === schemaId);
 
   // Verify state
   const [verifyId, setVerifyId] = useState("");
   const [verifyResult, setVerifyResult] = useState<VerifyResult | null>(null);
+  const [chainOnly, setChainOnly] = useState(false);
+
+  // Present state
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [verifierDomain, setVerifierDomain] = useState("");
+  const [presentationResult, setPresentationResult] =
+    useState<PresentationVerifyResult | null>(null);
 
   const myDid = address ? `did:ethr:${address.toLowerCase()}` : "";
 
@@ -74,6 +108,15 @@ export function CredentialManager() {
     loadCredentials();
   }, [loadCredentials]);
 
+  // Load published schemas for the issue form
+  useEffect(() => {
+    if (activeTab !== "issue") return;
+    schemaApi
+      .list()
+      .then(setSchemas)
+      .catch((err) => console.error("Failed to load schemas:", err));
+  }, [activeTab]);
+
   // Add claim
   const handleAddClaim = () => {
     if (!claimKey.trim() || !claimValue.trim()) return;
@@ -102,7 +145,32 @@ export function CredentialManager() {
       return;
     }
 
-    if (Object.keys(claims).length === 0) {
+    // Issue on behalf of another DID whose veriKey delegate we are
+    const issuer = (issuerDid.trim() || myDid).toLowerCase();
+    const issuerAddress = issuer.split(":").pop();
+    if (!issuerAddress || !isAddress(issuerAddress)) {
+      setError("유효한 발급자 DID를 입력하세요 (did:ethr:0x...)");
+      return;
+    }
+
+    // Typed claims from the schema form, or the free-form pairs
+    let issueClaims: Record<string, unknown> = claims;
+    if (selectedSchema) {
+      issueClaims = {};
+      for (const [name, property] of Object.entries(
+        selectedSchema.schema.properties ?? {}
+      )) {
+        const value = toClaimValue(property, schemaInputs[name] ?? "");
+        if (value !== undefined) issueClaims[name] = value;
+      }
+      const missing = (selectedSchema.schema.required ?? []).filter(
+        (name) => issueClaims[name] === undefined
+      );
+      if (missing.length > 0) {
+        setError(`필수 클레임을 입력하세요: ${missing.join(", ")}`);
+        return;
+      }
+    } else if (Object.keys(claims).length === 0) {
       setError("최소 하나의 클레임을 추가하세요");
       return;
     }
@@ -119,32 +187,53 @@ export function CredentialManager() {
           ).toISOString()
         : undefined;
 
-      // Create message to sign
-      const message = createCredentialMessage({
-        issuerDid: myDid,
+      // Issuance requires a Sign-In with Ethereum session as the issuer
+      if (getSession(address)?.did !== issuer) {
+        const message = createSiweMessage({
+          address,
+          nonce: await authApi.getNonce(),
+          statement: "Sign in to issue verifiable credentials.",
+          resources: [issuer],
+        });
+        await authApi.signIn(message, await signMessageAsync({ message }));
+      }
+
+      // Status list entries are reserved first so the signature covers them
+      const credentialStatus = await credentialApi.reserveStatus(issuer);
+
+      // Create typed data to sign (shown field by field in the wallet)
+      const typedData = createCredentialTypedData({
+        issuerDid: issuer,
         subjectDid,
         type: [credentialType],
-        claims,
+        claims: issueClaims,
         issuanceDate,
         expirationDate,
+        credentialSchema: selectedSchema?.credentialSchema,
+        credentialStatus,
       });
 
-      // Sign the message
-      const signature = await signMessageAsync({ message });
+      // Sign the typed data
+      const signature = await signTypedDataAsync(typedData);
 
       // Issue the credential
       const vc = await credentialApi.issue({
-        issuerAddress: address,
+        issuerAddress,
+        issuerDid: issuer,
         subjectDid,
         type: [credentialType],
-        claims,
+        claims: issueClaims,
         issuanceDate,
         expirationDate,
         signature,
+        proofType: EIP712_PROOF_TYPE,
+        credentialSchema: selectedSchema?.credentialSchema.id,
+        credentialStatus,
       });
 
       setSuccess(`자격증명이 발급되었습니다! ID: ${vc.id}`);
       setClaims({});
+      setSchemaInputs({});
       setSubjectDid("");
       loadCredentials();
     } catch (err: unknown) {
@@ -164,7 +253,7 @@ export function CredentialManager() {
     setVerifyResult(null);
 
     try {
-      const result = await credentialApi.verify(verifyId);
+      const result = await credentialApi.verify(verifyId, chainOnly);
       setVerifyResult(result);
     } catch (err: unknown) {
       const errorMessage =
@@ -179,25 +268,95 @@ export function CredentialManager() {
     }
   };
 
-  // Revoke credential
-  const handleRevoke = async (credentialId: string) => {
+  // Toggle a credential for the presentation
+  const handleToggleSelected = (credentialId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(credentialId)
+        ? prev.filter((id) => id !== credentialId)
+        : [...prev, credentialId]
+    );
+  };
+
+  // Create, sign and submit a presentation
+  const handlePresent = async () => {
+    if (!myDid || selectedIds.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    setPresentationResult(null);
+
+    try {
+      const domain = verifierDomain.trim() || window.location.host;
+
+      // The verifier's one-time challenge prevents replaying the presentation
+      const { challenge } = await presentationApi.createChallenge(domain);
+      const { presentation, message } = await presentationApi.create({
+        holderDid: myDid,
+        credentialIds: selectedIds,
+        challenge,
+        domain,
+      });
+
+      const signature = await signMessageAsync({ message });
+      const result = await presentationApi.verify({
+        ...presentation,
+        proof: { ...presentation.proof, proofValue: signature },
+      });
+      setPresentationResult(result);
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "제출 중 오류가 발생했습니다";
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Revoke, suspend or reinstate credential
+  const handleStatusChange = async (
+    action: StatusChangeAction,
+    credentialId: string
+  ) => {
     if (!address) return;
 
-    if (!confirm("정말 이 자격증명을 폐기하시겠습니까?")) return;
+    const label = STATUS_CHANGE_LABELS[action];
+    if (
+      action === "Revoke" &&
+      !confirm("정말 이 자격증명을 폐기하시겠습니까?")
+    ) {
+      return;
+    }
+    const reason = prompt(`${label} 사유 (선택)`);
+    if (reason === null) return;
+    const anchorOnChain =
+      action === "Revoke" &&
+      confirm("DID 레지스트리에도 폐기를 기록하시겠습니까? (가스 필요)");
 
     setLoading(true);
     setError(null);
 
     try {
-      const message = `Revoke credential: ${credentialId}`;
+      const request = {
+        reason: reason.trim() || undefined,
+        nonce: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+      };
+      const message = createStatusChangeMessage(action, credentialId, request);
       const signature = await signMessageAsync({ message });
 
-      await credentialApi.revoke(credentialId, address, signature);
-      setSuccess("자격증명이 폐기되었습니다");
+      await credentialApi.changeStatus(action, credentialId, {
+        ...request,
+        signerAddress: address,
+        signature,
+      });
+      if (anchorOnChain) {
+        await anchorRevocation(address, credentialId);
+      }
+      setSuccess(`자격증명이 ${label}되었습니다`);
       loadCredentials();
     } catch (err: unknown) {
       const errorMessage =
-        err instanceof Error ? err.message : "폐기 중 오류가 발생했습니다";
+        err instanceof Error ? err.message : `${label} 중 오류가 발생했습니다`;
       setError(errorMessage);
     } finally {
       setLoading(false);
@@ -232,6 +391,16 @@ export function CredentialManager() {
         >
           발급하기
         </button>
+        <button
+          onClick={() => setActiveTab("present")}
+          className={`px-4 py-2 text-sm font-medium ${
+            activeTab === "present"
+              ? "border-b-2 border-blue-600 text-blue-600"
+              : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          제출하기
+        </button>
         <button
           onClick={() => setActiveTab("verify")}
           className={`px-4 py-2 text-sm font-medium ${
@@ -292,8 +461,9 @@ export function CredentialManager() {
                   <CredentialCard
                     key={vc.id}
                     credential={vc}
-                    showRevoke
-                    onRevoke={() => handleRevoke(vc.id)}
+                    onStatusChange={(action) =>
+                      handleStatusChange(action, vc.id)
+                    }
                   />
                 ))}
               </div>
@@ -305,6 +475,23 @@ export function CredentialManager() {
       {/* Issue Tab */}
       {activeTab === "issue" && (
         <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              발급자 DID (대리 발급 시)
+            </label>
+            <input
+              type="text"
+              placeholder={myDid || "did:ethr:0x..."}
+              value={issuerDid}
+              onChange={(e) => setIssuerDid(e.target.value)}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              비워두면 내 DID로 발급합니다. 다른 DID의 veriKey 대리인이면 그
+              DID를 입력하세요.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">
               수신자 DID (Subject)
@@ -337,50 +524,157 @@ export function CredentialManager() {
 
           <div>
             <label className="block text-sm font-medium text-gray-700">
-              클레임 추가
+              클레임 스키마
             </label>
-            <div className="mt-1 flex gap-2">
-              <input
-                type="text"
-                placeholder="키 (예: degree)"
-                value={claimKey}
-                onChange={(e) => setClaimKey(e.target.value)}
-                className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
-              />
-              <input
-                type="text"
-                placeholder="값 (예: 컴퓨터공학)"
-                value={claimValue}
-                onChange={(e) => setClaimValue(e.target.value)}
-                className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
-              />
-              <button
-                onClick={handleAddClaim}
-                className="rounded-md bg-gray-600 px-4 py-2 text-sm text-white hover:bg-gray-700"
-              >
-                추가
-              </button>
-            </div>
-            {Object.entries(claims).length > 0 && (
-              <div className="mt-2 flex flex-wrap gap-2">
-                {Object.entries(claims).map(([key, value]) => (
-                  <span
-                    key={key}
-                    className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 text-sm text-blue-700"
-                  >
-                    {key}: {value}
-                    <button
-                      onClick={() => handleRemoveClaim(key)}
-                      className="ml-1 text-blue-500 hover:text-blue-700"
-                    >
-                      ×
-                    </button>
-                  </span>
-                ))}
-              </div>
+            <select
+              value={schemaId}
+              onChange={(e) => {
+                setSchemaId(e.target.value);
+                setSchemaInputs({});
+              }}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            >
+              <option value="">직접 입력 (스키마 없음)</option>
+              {schemas.map((schema) => (
+                <option key={schema.id} value={schema.id}>
+                  {schema.name} v{schema.version}
+                </option>
+              ))}
+            </select>
+            {selectedSchema?.description && (
+              <p className="mt-1 text-xs text-gray-500">
+                {selectedSchema.description}
+              </p>
             )}
           </div>
 
+          {selectedSchema ? (
+            <div className="space-y-3">
+              {Object.entries(selectedSchema.schema.properties ?? {}).map(
+                ([name, property]) => {
+                  const required =
+                    selectedSchema.schema.required?.includes(name);
+                  const label = `${property.title ?? name}${required ? " *" : ""}`;
+
+                  if (property.type === "boolean") {
+                    return (
+                      <label
+                        key={name}
+                        className="flex items-center gap-2 text-sm text-gray-700"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={schemaInputs[name] === true}
+                          onChange={(e) =>
+                            setSchemaInputs((prev) => ({
+                              ...prev,
+                              [name]: e.target.checked,
+                            }))
+                          }
+                        />
+                        {label}
+                      </label>
+                    );
+                  }
+
+                  return (
+                    <div key={name}>
+                      <label className="block text-sm font-medium text-gray-700">
+                        {label}
+                      </label>
+                      {property.enum ? (
+                        <select
+                          value={String(schemaInputs[name] ?? "")}
+                          onChange={(e) =>
+                            setSchemaInputs((prev) => ({
+                              ...prev,
+                              [name]: e.target.value,
+                            }))
+                          }
+                          className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                        >
+                          <option value="">선택하세요</option>
+                          {property.enum.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type={
+                            property.type === "number" ||
+                            property.type === "integer"
+                              ? "number"
+                              : property.format === "date"
+                                ? "date"
+                                : "text"
+                          }
+                          step={property.type === "integer" ? 1 : undefined}
+                          placeholder={property.description}
+                          value={String(schemaInputs[name] ?? "")}
+                          onChange={(e) =>
+                            setSchemaInputs((prev) => ({
+                              ...prev,
+                              [name]: e.target.value,
+                            }))
+                          }
+                          className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                        />
+                      )}
+                    </div>
+                  );
+                }
+              )}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                클레임 추가
+              </label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  type="text"
+                  placeholder="키 (예: degree)"
+                  value={claimKey}
+                  onChange={(e) => setClaimKey(e.target.value)}
+                  className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                />
+                <input
+                  type="text"
+                  placeholder="값 (예: 컴퓨터공학)"
+                  value={claimValue}
+                  onChange={(e) => setClaimValue(e.target.value)}
+                  className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                />
+                <button
+                  onClick={handleAddClaim}
+                  className="rounded-md bg-gray-600 px-4 py-2 text-sm text-white hover:bg-gray-700"
+                >
+                  추가
+                </button>
+              </div>
+              {Object.entries(claims).length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {Object.entries(claims).map(([key, value]) => (
+                    <span
+                      key={key}
+                      className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 text-sm text-blue-700"
+                    >
+                      {key}: {value}
+                      <button
+                        onClick={() => handleRemoveClaim(key)}
+                        className="ml-1 text-blue-500 hover:text-blue-700"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700">
               유효기간 (일)
@@ -404,6 +698,108 @@ export function CredentialManager() {
         </div>
       )}
 
+      {/* Present Tab */}
+      {activeTab === "present" && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              제출할 자격증명
+            </label>
+            {receivedCredentials.length === 0 ? (
+              <p className="mt-1 text-sm text-gray-500">
+                아직 받은 자격증명이 없습니다.
+              </p>
+            ) : (
+              <div className="mt-1 space-y-2">
+                {receivedCredentials.map((vc) => (
+                  <label key={vc.id} className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(vc.id)}
+                      onChange={() => handleToggleSelected(vc.id)}
+                      className="mt-4"
+                    />
+                    <div className="flex-1">
+                      <CredentialCard credential={vc} />
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              검증자 도메인
+            </label>
+            <input
+              type="text"
+              placeholder="verifier.example.com (기본값: 현재 호스트)"
+              value={verifierDomain}
+              onChange={(e) => setVerifierDomain(e.target.value)}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+
+          <button
+            onClick={handlePresent}
+            disabled={loading || !address || selectedIds.length === 0}
+            className="w-full rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            {loading ? "제출 중..." : "프레젠테이션 제출 (서명 필요)"}
+          </button>
+
+          {presentationResult && (
+            <div
+              className={`rounded-md p-4 ${
+                presentationResult.valid ? "bg-green-50" : "bg-red-50"
+              }`}
+            >
+              <h4
+                className={`font-medium ${
+                  presentationResult.valid ? "text-green-800" : "text-red-800"
+                }`}
+              >
+                {presentationResult.valid
+                  ? "✅ 유효한 프레젠테이션"
+                  : "❌ 유효하지 않음"}
+              </h4>
+              <div className="mt-2 space-y-1 text-sm">
+                <p>
+                  소유자 서명:{" "}
+                  {presentationResult.checks.holderSignature
+                    ? "✓ 유효"
+                    : "✗ 유효하지 않음"}
+                </p>
+                <p>
+                  챌린지:{" "}
+                  {presentationResult.checks.challenge
+                    ? "✓ 유효"
+                    : "✗ 만료 또는 사용됨"}
+                </p>
+                <p>
+                  자격증명:{" "}
+                  {presentationResult.checks.credentials
+                    ? "✓ 유효"
+                    : "✗ 유효하지 않음"}
+                </p>
+                <p>
+                  수신자 일치:{" "}
+                  {presentationResult.checks.subjectsMatchHolder
+                    ? "✓ 일치"
+                    : "✗ 불일치"}
+                </p>
+              </div>
+              {presentationResult.error && (
+                <p className="mt-2 text-sm text-red-600">
+                  오류: {presentationResult.error}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Verify Tab */}
       {activeTab === "verify" && (
         <div className="space-y-4">
@@ -427,6 +823,14 @@ export function CredentialManager() {
                 검증
               </button>
             </div>
+            <label className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={chainOnly}
+                onChange={(e) => setChainOnly(e.target.checked)}
+              />
+              폐기 여부를 DID 레지스트리(온체인)에서만 확인
+            </label>
           </div>
 
           {verifyResult && (
@@ -453,6 +857,12 @@ export function CredentialManager() {
                 <p>
                   폐기: {verifyResult.checks.notRevoked ? "✓ 유효" : "✗ 폐기됨"}
                 </p>
+                {verifyResult.checks.notSuspended !== undefined && (
+                  <p>
+                    정지:{" "}
+                    {verifyResult.checks.notSuspended ? "✓ 유효" : "✗ 정지됨"}
+                  </p>
+                )}
               </div>
               {verifyResult.error && (
                 <p className="mt-2 text-sm text-red-600">
@@ -469,12 +879,10 @@ export function CredentialManager() {
 
 function CredentialCard({
   credential,
-  showRevoke,
-  onRevoke,
+  onStatusChange,
 }: {
   credential: VerifiableCredential;
-  showRevoke?: boolean;
-  onRevoke?: () => void;
+  onStatusChange?: (action: StatusChangeAction) => void;
 }) {
   const [expanded, setExpanded] = useState(false);
 
@@ -510,13 +918,27 @@ function CredentialCard({
           >
             {expanded ? "접기" : "상세"}
           </button>
-          {showRevoke && onRevoke && (
-            <button
-              onClick={onRevoke}
-              className="text-xs text-red-600 hover:text-red-800"
-            >
-              폐기
-            </button>
+          {onStatusChange && (
+            <>
+              <button
+                onClick={() => onStatusChange("Suspend")}
+                className="text-xs text-yellow-600 hover:text-yellow-800"
+              >
+                정지
+              </button>
+              <button
+                onClick={() => onStatusChange("Unsuspend")}
+                className="text-xs text-green-600 hover:text-green-800"
+              >
+                재개
+              </button>
+              <button
+                onClick={() => onStatusChange("Revoke")}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                폐기
+              </button>
+            </>
           )}
         </div>
       </div>
@@ -70,6 +70,19 @@ export function EventDashboard() {
 
   useSocketEvent("event:new", handleNewEvent);
 
+  // Drop events that were removed by a chain reorganization
+  const handleRevertedEvent = useCallback(
+    (event: DIDEvent) => {
+      setEvents((prev) =>
+        prev.filter((e) => e.transactionHash !== event.transactionHash)
+      );
+      loadStats(); // Refresh stats
+    },
+    [loadStats]
+  );
+
+  useSocketEvent("event:reverted", handleRevertedEvent);
+
   const filteredEvents = events.filter(
     (e) => filter === "all" || e.type === filter
   );
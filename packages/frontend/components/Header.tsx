@@ -3,6 +3,7 @@
 import { useEffect, useMemo } from "react";
 import { useAccount, useConnect, useDisconnect, useSwitchChain } from "wagmi";
 import { localChain } from "@/lib/wagmi";
+import { authApi } from "@/lib/auth-api";
 
 export function Header() {
   const { address, isConnected, chainId } = useAccount();
@@ -64,7 +65,10 @@ export function Header() {
                   <p className="text-xs text-gray-500">Connected</p>
                 </div>
                 <button
-                  onClick={() => disconnect()}
+                  onClick={() => {
+                    authApi.signOut();
+                    disconnect();
+                  }}
                   className="rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
                 >
                   Disconnect
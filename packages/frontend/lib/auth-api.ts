@@ -0,0 +1,108 @@
+import { getAddress } from "viem";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID || 31337);
+
+const SESSION_STORAGE_KEY = "did-auth-session";
+
+export interface AuthSession {
+  did: string;
+  address: string;
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Build an EIP-4361 (Sign-In with Ethereum) message for this site
+ */
+export function createSiweMessage(params: {
+  address: string;
+  nonce: string;
+  statement?: string;
+  resources?: string[];
+}): string {
+  const lines = [
+    `${window.location.host} wants you to sign in with your Ethereum account:`,
+    getAddress(params.address),
+    "",
+  ];
+  if (params.statement) {
+    lines.push(params.statement, "");
+  }
+  lines.push(
+    `URI: ${window.location.origin}`,
+    "Version: 1",
+    `Chain ID: ${CHAIN_ID}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${new Date().toISOString()}`
+  );
+  if (params.resources?.length) {
+    lines.push("Resources:", ...params.resources.map((r) => `- ${r}`));
+  }
+  return lines.join("\n");
+}
+
+export const authApi = {
+  /**
+   * Get a one-time nonce for the sign-in message
+   */
+  async getNonce(): Promise<string> {
+    const res = await fetch(`${API_BASE_URL}/api/auth/nonce`, {
+      method: "POST",
+    });
+    if (!res.ok) {
+      throw new Error("Failed to get sign-in nonce");
+    }
+    const { nonce } = await res.json();
+    return nonce;
+  },
+
+  /**
+   * Exchange a signed sign-in message for a session, kept in localStorage
+   */
+  async signIn(message: string, signature: string): Promise<AuthSession> {
+    const res = await fetch(`${API_BASE_URL}/api/auth/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message, signature }),
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || "Failed to sign in");
+    }
+    const session: AuthSession = await res.json();
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    return session;
+  },
+
+  signOut() {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  },
+};
+
+/**
+ * The stored session of an account, unless it has expired
+ */
+export function getSession(address?: string): AuthSession | null {
+  if (typeof window === "undefined") return null;
+
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored) return null;
+
+  const session: AuthSession = JSON.parse(stored);
+  if (
+    new Date(session.expiresAt) <= new Date() ||
+    (address && session.address !== address.toLowerCase())
+  ) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Authorization header for endpoints that require sign-in
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const session = getSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
@@ -0,0 +1,40 @@
+/**
+ * Serialize a JSON value with the JSON Canonicalization Scheme
+ * (RFC 8785). Must produce the same output as the backend, which
+ * verifies signatures over it.
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new TypeError(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    const serialized = JSON.stringify(value) as string | undefined;
+    if (serialized === undefined) {
+      throw new TypeError(`Cannot canonicalize value of type ${typeof value}`);
+    }
+    return serialized;
+  }
+
+  const { toJSON } = value as { toJSON?: () => unknown };
+  if (typeof toJSON === "function") {
+    return canonicalize(toJSON.call(value));
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item: unknown) =>
+      item === undefined || typeof item === "function"
+        ? "null"
+        : canonicalize(item)
+    );
+    return `[${items.join(",")}]`;
+  }
+
+  const object = value as Record<string, unknown>;
+  const members = Object.keys(object)
+    .sort()
+    .filter(
+      (key) => object[key] !== undefined && typeof object[key] !== "function"
+    )
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(object[key])}`);
+  return `{${members.join(",")}}`;
+}
@@ -13,5 +13,6 @@ export const DELEGATE_TYPES = {
 export const ATTRIBUTE_NAMES = {
   PUBLIC_KEY_ED25519: "did/pub/Ed25519/veriKey/base64",
   PUBLIC_KEY_SECP256K1: "did/pub/Secp256k1/veriKey/hex",
+  KEY_AGREEMENT_X25519: "did/pub/X25519/enc/base64",
   SERVICE_ENDPOINT: "did/svc/MessagingService",
 } as const;
@@ -1,4 +1,19 @@
+import {
+  keccak256,
+  stringToHex,
+  type TypedData,
+  type TypedDataDefinition,
+  type TypedDataParameter,
+} from "viem";
+import { CONTRACT_ADDRESS } from "./contracts";
+import { canonicalize } from "./canonicalize";
+import { getAuthHeaders } from "./auth-api";
+import type { CredentialSchemaReference } from "./schema-api";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID || 31337);
+
+export const EIP712_PROOF_TYPE = "EthereumEip712Signature2021";
 
 // W3C VC Data Model 1.1 compliant contexts
 export const VC_CONTEXTS = [
@@ -15,10 +30,13 @@ export interface CredentialProof {
   proofValue: string; // W3C standard field name
 }
 
-// W3C CredentialStatusList2021
+// W3C StatusList2021Entry (older credentials only carry id and type)
 export interface CredentialStatus {
   id: string;
   type: string;
+  statusPurpose?: "revocation" | "suspension";
+  statusListIndex?: string;
+  statusListCredential?: string;
 }
 
 // W3C VC Data Model 1.1 compliant structure
@@ -33,7 +51,9 @@ export interface VerifiableCredential {
     id: string;
     [key: string]: unknown;
   };
-  credentialStatus?: CredentialStatus;
+  credentialSchema?: CredentialSchemaReference;
+  // Revocation entry, followed by the suspension entry if there is one
+  credentialStatus?: CredentialStatus | CredentialStatus[];
   proof: CredentialProof;
 }
 
@@ -44,7 +64,12 @@ export interface IssueCredentialParams {
   claims: Record<string, unknown>;
   issuanceDate: string;
   expirationDate?: string;
+  issuerDid?: string;
   signature: string;
+  proofType?: "EcdsaSecp256k1Signature2019" | typeof EIP712_PROOF_TYPE;
+  verificationMethod?: string; // e.g. "#delegate-12-0" when a delegate signs
+  credentialSchema?: string; // Published schema the claims must match
+  credentialStatus: CredentialStatus[]; // Entries from reserveStatus, signed with the credential
 }
 
 export interface VerifyResult {
@@ -53,15 +78,36 @@ export interface VerifyResult {
     signature: boolean;
     notExpired: boolean;
     notRevoked: boolean;
+    notSuspended?: boolean;
+  };
+  details?: {
+    revokedOnChain: boolean | null;
   };
   credential?: VerifiableCredential;
   error?: string;
 }
 
-export interface CredentialStatusResult {
+export interface CredentialStatusResult extends CredentialStatus {
+  status: "active" | "revoked" | "suspended" | "expired";
+}
+
+export type StatusChangeAction = "Revoke" | "Suspend" | "Unsuspend";
+
+export interface StatusChangeRequest {
+  signerAddress: string; // Issuer DID's current owner or a sigAuth delegate
+  signature: string;
+  nonce: string; // Single use, so the signed request cannot be replayed
+  timestamp: string;
+  reason?: string;
+}
+
+export interface CredentialStatusChange {
   id: string;
-  type: string;
-  status: "active" | "revoked" | "expired";
+  credentialId: string;
+  status: "active" | "revoked" | "suspended";
+  reason: string | null;
+  signer: string;
+  createdAt: string;
 }
 
 export const credentialApi = {
@@ -71,7 +117,7 @@ export const credentialApi = {
   async issue(params: IssueCredentialParams): Promise<VerifiableCredential> {
     const res = await fetch(`${API_BASE_URL}/api/credentials/issue`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...getAuthHeaders() },
       body: JSON.stringify(params),
     });
     if (!res.ok) {
@@ -82,20 +128,38 @@ export const credentialApi = {
   },
 
   /**
-   * Verify a credential
+   * Reserve the status list entries of a credential about to be signed
    */
-  async verify(credentialId: string): Promise<VerifyResult> {
+  async reserveStatus(issuerDid: string): Promise<CredentialStatus[]> {
+    const res = await fetch(`${API_BASE_URL}/api/credentials/status-entries`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+      body: JSON.stringify({ issuerDid }),
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || "Failed to reserve credential status");
+    }
+    const { credentialStatus } = await res.json();
+    return credentialStatus;
+  },
+
+  /**
+   * Verify a credential; chainOnly takes revocation from the registry alone
+   */
+  async verify(credentialId: string, chainOnly = false): Promise<VerifyResult> {
     const res = await fetch(
       `${API_BASE_URL}/api/credentials/${encodeURIComponent(
         credentialId
-      )}/verify`
+      )}/verify${chainOnly ? "?revocation=chain" : ""}`
     );
     if (!res.ok) throw new Error("Failed to verify credential");
     return res.json();
   },
 
   /**
-   * Get credential status (W3C CredentialStatusList2021)
+   * Get credential status by direct lookup (see credentialStatus for the
+   * status list that avoids revealing the credential being checked)
    */
   async getStatus(credentialId: string): Promise<CredentialStatusResult> {
     const res = await fetch(
@@ -135,33 +199,80 @@ export const credentialApi = {
   },
 
   /**
-   * Revoke a credential
+   * Revoke, suspend or unsuspend a credential; the signature covers
+   * createStatusChangeMessage(action, credentialId, request)
    */
-  async revoke(
+  async changeStatus(
+    action: StatusChangeAction,
     credentialId: string,
-    issuerAddress: string,
-    signature: string
+    request: StatusChangeRequest
   ): Promise<{ success: boolean; message: string }> {
     const res = await fetch(
       `${API_BASE_URL}/api/credentials/${encodeURIComponent(
         credentialId
-      )}/revoke`,
+      )}/${action.toLowerCase()}`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ issuerAddress, signature }),
+        body: JSON.stringify(request),
       }
     );
     if (!res.ok) {
       const error = await res.json();
-      throw new Error(error.message || "Failed to revoke credential");
+      throw new Error(
+        error.message || `Failed to ${action.toLowerCase()} credential`
+      );
     }
     return res.json();
   },
+
+  /**
+   * Get the revocation/suspension history of a credential
+   */
+  async getStatusHistory(
+    credentialId: string
+  ): Promise<CredentialStatusChange[]> {
+    const res = await fetch(
+      `${API_BASE_URL}/api/credentials/${encodeURIComponent(
+        credentialId
+      )}/status/history`
+    );
+    if (!res.ok) throw new Error("Failed to fetch credential status history");
+    return res.json();
+  },
 };
 
+// On-chain revocation anchor (must match the backend exactly)
+export const REVOCATION_ATTRIBUTE = "did/revoked";
+export const REVOCATION_VALIDITY = 100 * 365 * 24 * 60 * 60;
+
+/**
+ * Value of the did/revoked attribute that revokes a credential on-chain
+ */
+export function getRevocationHash(credentialId: string) {
+  return keccak256(stringToHex(credentialId));
+}
+
 /**
- * Create the message to sign for issuing a credential (W3C compliant)
+ * Create the message the issuer DID's owner or a sigAuth delegate signs
+ * to revoke, suspend or unsuspend
+ */
+export function createStatusChangeMessage(
+  action: StatusChangeAction,
+  credentialId: string,
+  request: Pick<StatusChangeRequest, "reason" | "nonce" | "timestamp">
+): string {
+  return (
+    `${action} credential: ${credentialId}` +
+    (request.reason ? `\nReason: ${request.reason}` : "") +
+    `\nNonce: ${request.nonce}` +
+    `\nTimestamp: ${request.timestamp}`
+  );
+}
+
+/**
+ * Create the message to sign for issuing a credential (W3C compliant),
+ * canonicalized with JCS (RFC 8785) so key order does not matter
  */
 export function createCredentialMessage(params: {
   issuerDid: string;
@@ -170,6 +281,8 @@ export function createCredentialMessage(params: {
   claims: Record<string, unknown>;
   issuanceDate: string;
   expirationDate?: string;
+  credentialSchema?: CredentialSchemaReference;
+  credentialStatus?: CredentialStatus[];
 }): string {
   const credentialPayload = {
     "@context": VC_CONTEXTS,
@@ -181,6 +294,122 @@ export function createCredentialMessage(params: {
       id: params.subjectDid,
       ...params.claims,
     },
+    credentialSchema: params.credentialSchema,
+    credentialStatus: params.credentialStatus,
+  };
+  return canonicalize(credentialPayload);
+}
+
+// EIP-712 layout of a credential (must match the backend exactly)
+export const CREDENTIAL_EIP712_TYPES = {
+  VerifiableCredential: [
+    { name: "context", type: "string[]" },
+    { name: "type", type: "string[]" },
+    { name: "issuer", type: "string" },
+    { name: "issuanceDate", type: "string" },
+    { name: "expirationDate", type: "string" },
+    { name: "credentialSubject", type: "CredentialSubject" },
+  ],
+  CredentialSubject: [
+    { name: "id", type: "string" },
+    { name: "claims", type: "Claim[]" },
+  ],
+  Claim: [
+    { name: "name", type: "string" },
+    { name: "value", type: "string" },
+  ],
+} as const;
+
+// Layouts of the schema and status references, signed when present
+const CREDENTIAL_SCHEMA_EIP712_TYPE = [
+  { name: "id", type: "string" },
+  { name: "type", type: "string" },
+];
+const CREDENTIAL_STATUS_EIP712_TYPE = [
+  { name: "id", type: "string" },
+  { name: "type", type: "string" },
+  { name: "statusPurpose", type: "string" },
+  { name: "statusListIndex", type: "string" },
+  { name: "statusListCredential", type: "string" },
+];
+
+/**
+ * Create the EIP-712 typed data to sign for issuing a credential.
+ * The domain is bound to the chain, the registry and the issuer DID.
+ */
+export function createCredentialTypedData(params: {
+  issuerDid: string;
+  subjectDid: string;
+  type: string[];
+  claims: Record<string, unknown>;
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSchema?: CredentialSchemaReference;
+  credentialStatus?: CredentialStatus[];
+}): TypedDataDefinition {
+  const domain = {
+    name: "Ethereum DID Verifiable Credential",
+    version: "1",
+    chainId: CHAIN_ID,
+    verifyingContract: CONTRACT_ADDRESS,
+    salt: keccak256(stringToHex(params.issuerDid)),
+  };
+  const types: Record<string, readonly TypedDataParameter[]> = {
+    ...CREDENTIAL_EIP712_TYPES,
+  };
+  const credentialFields: TypedDataParameter[] = [
+    ...CREDENTIAL_EIP712_TYPES.VerifiableCredential,
+  ];
+  const message: Record<string, unknown> = {
+    context: VC_CONTEXTS,
+    type: ["VerifiableCredential", ...params.type],
+    issuer: params.issuerDid,
+    issuanceDate: params.issuanceDate,
+    expirationDate: params.expirationDate ?? "",
+    credentialSubject: {
+      id: params.subjectDid,
+      // Sorted by name, non-string values JCS-canonicalized
+      claims: Object.keys(params.claims)
+        .sort()
+        .map((name) => {
+          const value = params.claims[name];
+          return {
+            name,
+            value: typeof value === "string" ? value : canonicalize(value),
+          };
+        }),
+    },
+  };
+
+  if (params.credentialSchema) {
+    credentialFields.push({
+      name: "credentialSchema",
+      type: "CredentialSchema",
+    });
+    types.CredentialSchema = CREDENTIAL_SCHEMA_EIP712_TYPE;
+    message.credentialSchema = params.credentialSchema;
+  }
+  if (params.credentialStatus) {
+    credentialFields.push({
+      name: "credentialStatus",
+      type: "CredentialStatus[]",
+    });
+    types.CredentialStatus = CREDENTIAL_STATUS_EIP712_TYPE;
+    message.credentialStatus = params.credentialStatus.map((entry) => ({
+      id: entry.id,
+      type: entry.type,
+      statusPurpose: entry.statusPurpose ?? "",
+      statusListIndex: entry.statusListIndex ?? "",
+      statusListCredential: entry.statusListCredential ?? "",
+    }));
+  }
+
+  types.VerifiableCredential = credentialFields;
+
+  return {
+    domain,
+    types: types as TypedData,
+    primaryType: "VerifiableCredential",
+    message,
   };
-  return JSON.stringify(credentialPayload);
 }
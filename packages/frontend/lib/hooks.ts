@@ -7,6 +7,11 @@ import {
 } from "wagmi";
 import { CONTRACT_ADDRESS, ETHEREUM_DID_REGISTRY_ABI } from "./contracts";
 import { Address, stringToHex } from "viem";
+import {
+  getRevocationHash,
+  REVOCATION_ATTRIBUTE,
+  REVOCATION_VALIDITY,
+} from "./credential-api";
 
 // Read hooks
 export function useIdentityOwner(identity?: Address) {
@@ -213,3 +218,39 @@ export function useRevokeAttribute() {
     error,
   };
 }
+
+// Anchor a credential revocation in the registry as a did/revoked
+// attribute of the issuer (the value is the hash of the credential id)
+export function useAnchorRevocation() {
+  const {
+    data: hash,
+    writeContractAsync,
+    isPending,
+    error,
+  } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const anchorRevocation = (issuer: Address, credentialId: string) =>
+    writeContractAsync({
+      address: CONTRACT_ADDRESS,
+      abi: ETHEREUM_DID_REGISTRY_ABI,
+      functionName: "setAttribute",
+      args: [
+        issuer,
+        stringToHex(REVOCATION_ATTRIBUTE, { size: 32 }),
+        getRevocationHash(credentialId),
+        BigInt(REVOCATION_VALIDITY),
+      ],
+    });
+
+  return {
+    anchorRevocation,
+    hash,
+    isPending,
+    isConfirming,
+    isSuccess,
+    error,
+  };
+}
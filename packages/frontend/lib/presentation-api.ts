@@ -0,0 +1,97 @@
+import { VerifiableCredential, VerifyResult } from "./credential-api";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+export interface PresentationChallenge {
+  challenge: string;
+  domain: string;
+  expiresAt: string;
+}
+
+// Holder's proof, bound to a verifier challenge and domain
+export interface PresentationProof {
+  type: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: "authentication";
+  challenge: string;
+  domain: string;
+  proofValue?: string;
+}
+
+// W3C VC Data Model 1.1 compliant presentation
+export interface VerifiablePresentation {
+  "@context": string[];
+  type: string[];
+  holder: string;
+  verifiableCredential: VerifiableCredential[];
+  proof: PresentationProof;
+}
+
+export interface PresentationVerifyResult {
+  valid: boolean;
+  checks: {
+    holderSignature: boolean;
+    challenge: boolean;
+    credentials: boolean;
+    subjectsMatchHolder: boolean;
+  };
+  holder?: string;
+  credentials: VerifyResult[];
+  error?: string;
+}
+
+export const presentationApi = {
+  /**
+   * Get a one-time challenge for a presentation to a verifier domain
+   */
+  async createChallenge(domain: string): Promise<PresentationChallenge> {
+    const res = await fetch(`${API_BASE_URL}/api/presentations/challenges`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ domain }),
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || "Failed to create challenge");
+    }
+    return res.json();
+  },
+
+  /**
+   * Bundle credentials into an unsigned presentation; the holder signs
+   * the returned message (personal_sign)
+   */
+  async create(params: {
+    holderDid: string;
+    credentialIds: string[];
+    challenge: string;
+    domain: string;
+  }): Promise<{ presentation: VerifiablePresentation; message: string }> {
+    const res = await fetch(`${API_BASE_URL}/api/presentations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || "Failed to create presentation");
+    }
+    return res.json();
+  },
+
+  /**
+   * Verify a signed presentation and its credentials
+   */
+  async verify(
+    presentation: VerifiablePresentation
+  ): Promise<PresentationVerifyResult> {
+    const res = await fetch(`${API_BASE_URL}/api/presentations/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(presentation),
+    });
+    if (!res.ok) throw new Error("Failed to verify presentation");
+    return res.json();
+  },
+};
@@ -0,0 +1,68 @@
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// credentialSchema of a credential whose claims match a published schema
+export interface CredentialSchemaReference {
+  id: string;
+  type: string;
+}
+
+// JSON Schema subset used to render claim forms
+export interface ClaimProperty {
+  type?: "string" | "number" | "integer" | "boolean";
+  title?: string;
+  description?: string;
+  format?: string;
+  enum?: (string | number)[];
+}
+
+export interface ClaimsSchema {
+  type: "object";
+  properties?: Record<string, ClaimProperty>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+export interface CredentialSchema {
+  id: string;
+  author: string;
+  name: string;
+  version: string;
+  description: string | null;
+  schema: ClaimsSchema;
+  credentialSchema: CredentialSchemaReference;
+  createdAt: string;
+}
+
+export const schemaApi = {
+  /**
+   * List published schemas, newest first
+   */
+  async list(filter?: {
+    author?: string;
+    name?: string;
+  }): Promise<CredentialSchema[]> {
+    const params = new URLSearchParams();
+    if (filter?.author) params.set("author", filter.author);
+    if (filter?.name) params.set("name", filter.name);
+
+    const res = await fetch(`${API_BASE_URL}/api/schemas?${params}`);
+    if (!res.ok) {
+      throw new Error("Failed to fetch credential schemas");
+    }
+    return res.json();
+  },
+};
+
+/**
+ * Turn form input into a claim value of the property's JSON type
+ */
+export function toClaimValue(
+  property: ClaimProperty,
+  input: string | boolean
+): unknown {
+  if (property.type === "boolean") return input === true;
+  if (property.type === "number" || property.type === "integer") {
+    return input === "" ? undefined : Number(input);
+  }
+  return input === "" ? undefined : input;
+}